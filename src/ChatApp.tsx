@@ -15,6 +15,12 @@ import {
   faCode,
   faComments,
   faMagic,
+  faRedo,
+  faPen,
+  faBrain,
+  faProjectDiagram,
+  faFileAlt,
+  faNoteSticky,
 } from '@fortawesome/free-solid-svg-icons';
 
 import { Button } from './components/ui/button';
@@ -22,13 +28,36 @@ import { Textarea } from './components/ui/textarea';
 import { cn } from './lib/utils';
 import SettingsPanel from './components/SettingsPanel';
 import ToolManager from './components/ToolManager';
+import ToolCallTimeline, { type ToolCallRecord } from './components/ToolCallTimeline';
+import ToolApprovalDialog from './components/ToolApprovalDialog';
+import MemoryManager from './components/MemoryManager';
+import NotesManager from './components/NotesManager';
+import AgentScratchpad from './components/AgentScratchpad';
+import PromptTemplateManager from './components/PromptTemplateManager';
 
 import { 
   foundationModels, 
-
+  unregisterTool,
+  renderPrompt,
+  CancelledError,
+  FoundationModelsError,
   type AvailabilityResult,
-  type ConversationSession 
+  type ConversationSession,
+  type RetryEvent,
+  type ToolApprovalRequest
 } from './services/foundation.models.service';
+import type { QueueState } from './services/request.scheduler';
+import type { TranscriptEntry } from './services/session.transcript';
+import type { ContextBudget } from './services/context.budget';
+import { conversationStore, type SavedConversation } from './services/conversation.store';
+import { memoryStore } from './services/memory.store';
+import {
+  presentError,
+  presentErrorDetail,
+  type ErrorPresentation
+} from './services/foundation.models.errors';
+import { MEMORY_TOOL_ID, registerMemoryTool } from './services/builtin.tools';
+import { DEFAULT_AGENT_MAX_STEPS, runAgent, type AgentStep } from './services/agent.runner';
 
 interface Message {
   id: string;
@@ -37,7 +66,21 @@ interface Message {
   timestamp: Date;
   isStreaming?: boolean;
   scenario?: ChatScenario;
-  metadata?: any;
+  metadata?: MessageMetadata;
+}
+
+// How a reply was produced, shown as badges under the message
+interface MessageMetadata {
+  instructions?: string;
+  conversation?: boolean;
+  schema?: object;
+  structured?: boolean;
+  summary?: boolean;
+  tools?: string[];
+  toolCalls?: ToolCallRecord[];
+  agentSteps?: AgentStep[];
+  hitStepLimit?: boolean;
+  cancelled?: boolean;
 }
 
 interface Settings {
@@ -45,6 +88,8 @@ interface Settings {
   maxTokens: number;
   enableStreaming: boolean;
   enableInstructions: boolean;
+  enableMemory: boolean;
+  agentMaxSteps: number;
 }
 
 type ChatScenario = 
@@ -52,6 +97,7 @@ type ChatScenario =
   | 'conversation' 
   | 'structured' 
   | 'tools' 
+  | 'agent'
   | 'summary';
 
 interface ScenarioConfig {
@@ -62,6 +108,9 @@ interface ScenarioConfig {
   color: string;
 }
 
+// The chat is saved under a single key and reopened on the next launch
+const SAVED_CHAT_ID = 'current';
+
 const scenarios: ScenarioConfig[] = [
   {
     id: 'basic',
@@ -91,6 +140,13 @@ const scenarios: ScenarioConfig[] = [
     icon: faWrench,
     color: 'bg-red-600'
   },
+  {
+    id: 'agent',
+    name: 'Agent',
+    description: 'Multi-step tool use',
+    icon: faProjectDiagram,
+    color: 'bg-teal-600'
+  },
   {
     id: 'summary',
     name: 'Summary',
@@ -112,20 +168,31 @@ const ChatApp: React.FC = () => {
   // UI state
   const [showSettings, setShowSettings] = useState(false);
   const [showSidebar, setShowSidebar] = useState(false);
+  const [showMemory, setShowMemory] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [showPrompts, setShowPrompts] = useState(false);
   const [currentScenario, setCurrentScenario] = useState<ChatScenario>('basic');
   
   // Settings
-  const [settings, setSettings] = useState<Settings>({
+  const [settings, setSettings] = useState<Settings>(() => ({
     temperature: 0.7,
     maxTokens: 1000,
     enableStreaming: true,
-    enableInstructions: false
-  });
+    enableInstructions: false,
+    enableMemory: memoryStore.isEnabled(),
+    agentMaxSteps: DEFAULT_AGENT_MAX_STEPS
+  }));
   
   // Foundation Models state
   const [availability, setAvailability] = useState<AvailabilityResult | null>(null);
   const [conversationSession, setConversationSession] = useState<ConversationSession | null>(null);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ErrorPresentation | null>(null);
+  const [retryStatus, setRetryStatus] = useState<RetryEvent | null>(null);
+  const [liveToolCalls, setLiveToolCalls] = useState<ToolCallRecord[]>([]);
+  const [liveAgentSteps, setLiveAgentSteps] = useState<AgentStep[]>([]);
+  const [pendingApprovals, setPendingApprovals] = useState<ToolApprovalRequest[]>([]);
+  const [queueState, setQueueState] = useState<QueueState>(() => foundationModels.getQueueState());
+  const [contextBudget, setContextBudget] = useState<ContextBudget | null>(null);
   
   // Tool calling state
   const [registeredTools, setRegisteredTools] = useState<string[]>([]);
@@ -139,6 +206,15 @@ const ChatApp: React.FC = () => {
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const settingsPanelRef = useRef<HTMLDivElement>(null);
   const settingsButtonRef = useRef<HTMLButtonElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const streamedTextRef = useRef('');
+  // Tool calls of the reply being generated; the ref holds the latest list for the finished message
+  const toolCallsRef = useRef<ToolCallRecord[]>([]);
+  const agentStepsRef = useRef<AgentStep[]>([]);
+  const lastPromptRef = useRef('');
+  // Transcript of a saved conversation, restored lazily when the next message is sent
+  const savedTranscriptRef = useRef<TranscriptEntry[] | null>(null);
+  const [isHydrated, setIsHydrated] = useState(false);
 
   // Initialize
   useEffect(() => {
@@ -146,6 +222,101 @@ const ChatApp: React.FC = () => {
     prewarmIfAvailable();
   }, []);
 
+  // Reopen the chat saved before the app was last closed
+  useEffect(() => {
+    conversationStore.load(SAVED_CHAT_ID)
+      .then(saved => {
+        if (!saved) return;
+        setCurrentScenario(saved.scenario as ChatScenario);
+        setMessages(saved.messages.map(message => ({
+          ...message,
+          timestamp: new Date(message.timestamp),
+          scenario: message.scenario as ChatScenario | undefined,
+          metadata: message.metadata as MessageMetadata | undefined
+        })));
+        savedTranscriptRef.current = saved.transcript ?? null;
+      })
+      .catch(err => console.error('Failed to load saved chat:', err))
+      .finally(() => setIsHydrated(true));
+  }, []);
+
+  // Save the chat whenever a response has settled
+  useEffect(() => {
+    if (!isHydrated || isLoading) return;
+
+    const saved: SavedConversation = {
+      id: SAVED_CHAT_ID,
+      scenario: currentScenario,
+      messages: messages.map(message => ({ ...message, timestamp: message.timestamp.getTime() })),
+      transcript: conversationSession
+        ? foundationModels.getTranscript(conversationSession.sessionId)
+        : savedTranscriptRef.current ?? undefined,
+      updatedAt: Date.now()
+    };
+    conversationStore.save(saved).catch(err => console.error('Failed to save chat:', err));
+  }, [isHydrated, isLoading, messages, currentScenario, conversationSession]);
+
+  // Surface retry progress from the service
+  useEffect(() => foundationModels.on('retry', setRetryStatus), []);
+
+  // Track requests waiting for the model
+  useEffect(() => foundationModels.on('queue', setQueueState), []);
+
+  // The memory tool is registered globally so every scenario can use it
+  useEffect(() => {
+    memoryStore.setEnabled(settings.enableMemory);
+    if (!settings.enableMemory) return;
+    registerMemoryTool().catch(err => console.error('Failed to register memory tool:', err));
+    return () => {
+      unregisterTool(MEMORY_TOOL_ID).catch(err => console.error('Failed to unregister memory tool:', err));
+    };
+  }, [settings.enableMemory]);
+
+  // Collect tool calls as they start and finish; a finished call replaces its running card
+  useEffect(() => {
+    const updateToolCall = (call: ToolCallRecord) => {
+      const calls = toolCallsRef.current;
+      toolCallsRef.current = calls.some(existing => existing.callId === call.callId)
+        ? calls.map(existing => existing.callId === call.callId ? call : existing)
+        : [...calls, call];
+      setLiveToolCalls(toolCallsRef.current);
+    };
+    const unsubscribeStarted = foundationModels.on('toolCallStarted', updateToolCall);
+    const unsubscribeFinished = foundationModels.on('toolCallFinished', updateToolCall);
+    return () => {
+      unsubscribeStarted();
+      unsubscribeFinished();
+    };
+  }, []);
+
+  // Queue tool calls that wait for the user; resolved or cancelled ones leave the queue
+  useEffect(() => {
+    setPendingApprovals(foundationModels.getPendingApprovals());
+    const unsubscribeRequested = foundationModels.on('toolApprovalRequested', request => {
+      setPendingApprovals(prev => [...prev, request]);
+    });
+    const unsubscribeResolved = foundationModels.on('toolApprovalResolved', ({ callId }) => {
+      setPendingApprovals(prev => prev.filter(request => request.callId !== callId));
+    });
+    return () => {
+      unsubscribeRequested();
+      unsubscribeResolved();
+    };
+  }, []);
+
+  // Track how full the conversation's context window is
+  useEffect(() => {
+    if (!conversationSession) {
+      setContextBudget(null);
+      return;
+    }
+    const { sessionId } = conversationSession;
+    setContextBudget(foundationModels.getContextBudget(sessionId));
+    return foundationModels.on('contextBudget', budget => {
+      if (budget.sessionId === sessionId) setContextBudget(budget);
+    });
+  }, [conversationSession]);
+
   // Auto-scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -179,10 +350,12 @@ const ChatApp: React.FC = () => {
       const result = await foundationModels.checkAvailability();
       setAvailability(result);
       if (!result.available) {
-        setError('Foundation Models are not available on this device');
+        setError(presentErrorDetail({ kind: 'modelUnavailable', status: result.status }, result.reason));
+      } else {
+        setError(null);
       }
     } catch (err) {
-      setError('Failed to check availability');
+      setError(presentError(err));
       console.error(err);
     }
   };
@@ -197,27 +370,62 @@ const ChatApp: React.FC = () => {
     }
   };
 
-  const startConversation = async (): Promise<ConversationSession | null> => {
-    try {
-      const session = await foundationModels.createConversationSession(
+  // Errors propagate so the banner can show the specific cause
+  const startConversation = async (): Promise<ConversationSession> => {
+    const savedTranscript = savedTranscriptRef.current;
+    const session = savedTranscript
+      ? await foundationModels.restoreConversationSession(savedTranscript)
+      : await foundationModels.createConversationSession(
         settings.enableInstructions ? instructions : undefined
       );
-      setConversationSession(session);
-      return session;
-    } catch (err) {
-      setError('Failed to start conversation');
-      console.error(err);
-      return null;
+    savedTranscriptRef.current = null;
+    setConversationSession(session);
+    return session;
+  };
+
+  // Consumes real model chunks, flushing to React state at most once per animation frame
+  const streamResponse = async (prompt: string, signal: AbortSignal, tools?: string[]): Promise<string> => {
+    let frame: number | null = null;
+    const flush = () => {
+      frame = null;
+      setStreamingContent(streamedTextRef.current);
+    };
+
+    streamedTextRef.current = '';
+    try {
+      const options = { temperature: settings.temperature, maxTokens: settings.maxTokens, signal, tools };
+      for await (const event of foundationModels.stream(prompt, options)) {
+        switch (event.type) {
+          case 'delta':
+            streamedTextRef.current += event.text;
+            break;
+          case 'snapshot':
+          case 'done':
+            streamedTextRef.current = event.text;
+            break;
+          case 'error':
+            throw event.error;
+        }
+        if (frame === null) {
+          frame = requestAnimationFrame(flush);
+        }
+      }
+    } finally {
+      if (frame !== null) {
+        cancelAnimationFrame(frame);
+      }
     }
+    return streamedTextRef.current;
   };
 
-  const sendMessage = async () => {
-    if (!inputMessage.trim() || isLoading) return;
+  const sendMessage = async (content: string = inputMessage) => {
+    if (!content.trim() || isLoading) return;
 
+    lastPromptRef.current = content;
     const userMessage: Message = {
       id: Date.now().toString(),
       role: 'user',
-      content: inputMessage,
+      content,
       timestamp: new Date(),
       scenario: currentScenario
     };
@@ -227,9 +435,44 @@ const ChatApp: React.FC = () => {
     setIsLoading(true);
     setError(null);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    const { signal } = abortController;
+
+    toolCallsRef.current = [];
+    setLiveToolCalls([]);
+    // Requests in the tools scenario are scoped to the selected tools, plus memory when it is on
+    const toolScope = settings.enableMemory ? [...registeredTools, MEMORY_TOOL_ID] : registeredTools;
+    const withToolCalls = (metadata: Message['metadata']) => toolCallsRef.current.length > 0
+      ? { ...metadata, toolCalls: toolCallsRef.current }
+      : metadata;
+
+    agentStepsRef.current = [];
+    setLiveAgentSteps([]);
+    // The agent picks tools itself, one step at a time, and answers once it has what it needs
+    const runAgentTask = async (): Promise<{ answer: string; metadata: MessageMetadata }> => {
+      if (registeredTools.length === 0) {
+        throw new Error('No tools selected. Please select tools in the settings.');
+      }
+      const result = await runAgent(userMessage.content, {
+        tools: toolScope,
+        maxSteps: settings.agentMaxSteps,
+        instructions: settings.enableInstructions ? instructions : undefined,
+        signal,
+        onStep: steps => {
+          agentStepsRef.current = steps;
+          setLiveAgentSteps(steps);
+        }
+      });
+      return {
+        answer: result.answer,
+        metadata: { tools: registeredTools, agentSteps: result.steps, hitStepLimit: result.hitStepLimit }
+      };
+    };
+
     try {
       let response: string;
-      let metadata: any = {};
+      let metadata: MessageMetadata = {};
 
       if (settings.enableStreaming) {
         const assistantMessage: Message = {
@@ -244,10 +487,11 @@ const ChatApp: React.FC = () => {
         setMessages(prev => [...prev, assistantMessage]);
         setIsStreaming(true);
         setStreamingContent('');
+        streamedTextRef.current = '';
 
-        // Retrieve full response (reusing non-streaming logic later)
+        // Scenarios without a streaming API show the full response once it arrives
         let fullResponse = '';
-        let streamMetadata: any = {};
+        let streamMetadata: MessageMetadata = {};
 
         const getFullResponse = async (): Promise<void> => {
           switch (currentScenario) {
@@ -255,14 +499,12 @@ const ChatApp: React.FC = () => {
               if (settings.enableInstructions && instructions.trim()) {
                 fullResponse = await foundationModels.generateWithInstructions(
                   userMessage.content,
-                  instructions
+                  instructions,
+                  { signal }
                 );
                 streamMetadata = { instructions };
               } else {
-                fullResponse = await foundationModels.generateText(userMessage.content, {
-                  temperature: settings.temperature,
-                  maxTokens: settings.maxTokens
-                });
+                fullResponse = await streamResponse(userMessage.content, signal);
               }
               break;
             }
@@ -275,14 +517,15 @@ const ChatApp: React.FC = () => {
 
               fullResponse = await foundationModels.continueConversation(
                 activeSession.sessionId,
-                userMessage.content
+                userMessage.content,
+                { signal }
               );
               streamMetadata = { conversation: true };
               break;
             }
             case 'structured': {
               const schema = JSON.parse(jsonSchema);
-              const result = await foundationModels.generateWithSchema(userMessage.content, schema);
+              const result = await foundationModels.generateWithSchema(userMessage.content, schema, { signal });
               fullResponse = JSON.stringify(result, null, 2);
               streamMetadata = { schema, structured: true };
               break;
@@ -291,23 +534,28 @@ const ChatApp: React.FC = () => {
               if (registeredTools.length === 0) {
                 throw new Error('No tools selected. Please select tools in the settings.');
               }
-              // Pass user prompt directly; Foundation Models will decide when to invoke tools
-              fullResponse = await foundationModels.generateText(userMessage.content, {
-                temperature: settings.temperature,
-                maxTokens: settings.maxTokens
-              });
+              // Pass user prompt directly; Foundation Models will decide when to invoke the selected tools
+              fullResponse = await streamResponse(userMessage.content, signal, toolScope);
               streamMetadata = { tools: registeredTools };
               break;
             }
+            case 'agent': {
+              const { answer, metadata: agentMetadata } = await runAgentTask();
+              fullResponse = answer;
+              streamMetadata = agentMetadata;
+              break;
+            }
             case 'summary': {
               try {
-                const sum = await foundationModels.generateSummary(userMessage.content);
+                const sum = await foundationModels.generateSummary(userMessage.content, { signal });
                 fullResponse = JSON.stringify(sum, null, 2);
               } catch (err) {
+                if (err instanceof CancelledError) throw err;
                 // Fallback to instruction-based summary if built-in summary fails
                 fullResponse = await foundationModels.generateWithInstructions(
-                  `Please provide a concise summary of the following text:\n\n${userMessage.content}`,
-                  ''
+                  renderPrompt('summary.concise', { text: userMessage.content }),
+                  '',
+                  { signal }
                 );
               }
               streamMetadata = { summary: true };
@@ -318,23 +566,9 @@ const ChatApp: React.FC = () => {
 
         await getFullResponse();
 
-        // Simulate streaming by progressively revealing text
-        let currentText = '';
-        for (let i = 0; i < fullResponse.length; i++) {
-          currentText += fullResponse[i];
-          setStreamingContent(currentText);
-          setMessages(prev => prev.map(msg =>
-            msg.id === assistantMessage.id ? { ...msg, content: currentText } : msg
-          ));
-          await new Promise(res => setTimeout(res, 20));
-        }
-
         setMessages(prev => prev.map(msg =>
-          msg.id === assistantMessage.id ? { ...msg, content: fullResponse, isStreaming: false, metadata: streamMetadata } : msg
+          msg.id === assistantMessage.id ? { ...msg, content: fullResponse, isStreaming: false, metadata: withToolCalls(streamMetadata) } : msg
         ));
-        setIsStreaming(false);
-        setStreamingContent('');
-        setIsLoading(false);
         return;
       }
 
@@ -344,7 +578,8 @@ const ChatApp: React.FC = () => {
           if (settings.enableInstructions && instructions.trim()) {
             response = await foundationModels.generateWithInstructions(
               userMessage.content,
-              instructions
+              instructions,
+              { signal }
             );
             metadata = { instructions };
           } else {
@@ -352,7 +587,8 @@ const ChatApp: React.FC = () => {
               userMessage.content,
               {
                 temperature: settings.temperature,
-                maxTokens: settings.maxTokens
+                maxTokens: settings.maxTokens,
+                signal
               }
             );
           }
@@ -368,13 +604,15 @@ const ChatApp: React.FC = () => {
               // For conversation with instructions, we use generateWithInstructions
               response = await foundationModels.generateWithInstructions(
                 userMessage.content,
-                instructions
+                instructions,
+                { signal }
               );
               metadata = { conversation: true, instructions };
             } else {
               response = await foundationModels.continueConversation(
                 session.sessionId,
-                userMessage.content
+                userMessage.content,
+                { signal }
               );
               metadata = { conversation: true };
             }
@@ -389,19 +627,22 @@ const ChatApp: React.FC = () => {
             if (settings.enableInstructions && instructions.trim()) {
               // For structured output with instructions, we use generateWithInstructions and mention the schema
               response = await foundationModels.generateWithInstructions(
-                `${userMessage.content}\n\nPlease respond according to this JSON schema: ${jsonSchema}`,
-                instructions
+                renderPrompt('structured.schemaHint', { request: userMessage.content, schema: jsonSchema }),
+                instructions,
+                { signal }
               );
               metadata = { schema, structured: true, instructions };
             } else {
               const result = await foundationModels.generateWithSchema(
                 userMessage.content,
-                schema
+                schema,
+                { signal }
               );
               response = JSON.stringify(result, null, 2);
               metadata = { schema, structured: true };
             }
           } catch (parseError) {
+            if (parseError instanceof FoundationModelsError) throw parseError;
             throw new Error('Invalid JSON schema');
           }
           break;
@@ -413,7 +654,8 @@ const ChatApp: React.FC = () => {
           if (settings.enableInstructions && instructions.trim()) {
             response = await foundationModels.generateWithInstructions(
               userMessage.content,
-              instructions
+              instructions,
+              { signal, tools: toolScope }
             );
             metadata = { tools: registeredTools, instructions };
           } else {
@@ -421,29 +663,39 @@ const ChatApp: React.FC = () => {
               userMessage.content,
               {
                 temperature: settings.temperature,
-                maxTokens: settings.maxTokens
+                maxTokens: settings.maxTokens,
+                signal,
+                tools: toolScope
               }
             );
             metadata = { tools: registeredTools };
           }
           break;
 
+        case 'agent': {
+          const result = await runAgentTask();
+          response = result.answer;
+          metadata = result.metadata;
+          break;
+        }
+
         case 'summary':
           if (settings.enableInstructions && instructions.trim()) {
             response = await foundationModels.generateWithInstructions(
-              `Please summarize the following text: ${userMessage.content}`,
-              instructions
+              renderPrompt('summary.instructed', { text: userMessage.content }),
+              instructions,
+              { signal }
             );
             metadata = { summary: true, instructions };
           } else {
-            const summaryResult = await foundationModels.generateSummary(userMessage.content);
+            const summaryResult = await foundationModels.generateSummary(userMessage.content, { signal });
             response = JSON.stringify(summaryResult, null, 2);
             metadata = { summary: true };
           }
           break;
 
         default:
-          response = await foundationModels.generateText(userMessage.content);
+          response = await foundationModels.generateText(userMessage.content, { signal });
       }
 
       const assistantMessage: Message = {
@@ -452,29 +704,91 @@ const ChatApp: React.FC = () => {
         content: response,
         timestamp: new Date(),
         scenario: currentScenario,
-        metadata
+        metadata: withToolCalls(metadata)
       };
 
       setMessages(prev => [...prev, assistantMessage]);
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to send message');
+      if (err instanceof CancelledError) {
+        // Keep whatever was already shown and mark the reply as stopped
+        setMessages(prev => prev.map(msg =>
+          msg.isStreaming
+            ? {
+              ...msg,
+              content: streamedTextRef.current,
+              isStreaming: false,
+              metadata: withToolCalls(agentStepsRef.current.length > 0
+                ? { cancelled: true, agentSteps: agentStepsRef.current }
+                : { cancelled: true })
+            }
+            : msg
+        ));
+        return;
+      }
+      // Keep partially streamed text, drop an empty placeholder
+      setMessages(prev => prev
+        .filter(msg => !msg.isStreaming || streamedTextRef.current)
+        .map(msg => msg.isStreaming
+          ? { ...msg, content: streamedTextRef.current, isStreaming: false, metadata: withToolCalls(msg.metadata) }
+          : msg)
+      );
+      setError(presentError(err));
       console.error(err);
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
+      setIsStreaming(false);
+      setStreamingContent('');
       setIsLoading(false);
+      setRetryStatus(null);
     }
   };
 
-  const stopStreaming = () => {
-    if (isStreaming) {
-      setIsStreaming(false);
-      setStreamingContent('');
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const recoverFromError = (recovery: ErrorPresentation['recovery']) => {
+    setError(null);
+    switch (recovery) {
+      case 'retry':
+        sendMessage(lastPromptRef.current);
+        break;
+      case 'shortenPrompt':
+      case 'rephrase':
+        setInputMessage(lastPromptRef.current);
+        inputRef.current?.focus();
+        break;
+      case 'newSession':
+        savedTranscriptRef.current = null;
+        if (conversationSession) {
+          foundationModels.endConversationSession(conversationSession.sessionId);
+          setConversationSession(null);
+        }
+        setInputMessage(lastPromptRef.current);
+        inputRef.current?.focus();
+        break;
+      case 'checkSettings':
+        checkAvailability();
+        break;
     }
   };
 
+  const recoveryLabels: Record<ErrorPresentation['recovery'], string | null> = {
+    retry: 'Retry',
+    shortenPrompt: 'Edit prompt',
+    rephrase: 'Edit prompt',
+    newSession: 'New session',
+    checkSettings: 'Check again',
+    none: null
+  };
+
   const clearChat = () => {
     setMessages([]);
     setStreamingContent('');
     setError(null);
+    savedTranscriptRef.current = null;
     if (conversationSession) {
       foundationModels.endConversationSession(conversationSession.sessionId);
       setConversationSession(null);
@@ -508,6 +822,39 @@ const ChatApp: React.FC = () => {
 
   return (
     <div className="flex h-screen bg-gradient-to-br from-slate-900 via-purple-900 to-slate-900 ">
+      {/* Memory */}
+      <AnimatePresence>
+        {showMemory && (
+          <MemoryManager enabled={settings.enableMemory} onClose={() => setShowMemory(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Notes */}
+      <AnimatePresence>
+        {showNotes && (
+          <NotesManager onClose={() => setShowNotes(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Prompt Templates */}
+      <AnimatePresence>
+        {showPrompts && (
+          <PromptTemplateManager onClose={() => setShowPrompts(false)} />
+        )}
+      </AnimatePresence>
+
+      {/* Tool Approval */}
+      <AnimatePresence>
+        {pendingApprovals.length > 0 && (
+          <ToolApprovalDialog
+            key={pendingApprovals[0].callId}
+            request={pendingApprovals[0]}
+            queuedCount={pendingApprovals.length - 1}
+            onDecision={(decision) => foundationModels.resolveToolApproval(pendingApprovals[0].callId, decision)}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Sidebar */}
       <AnimatePresence>
         {showSidebar && (
@@ -579,6 +926,39 @@ const ChatApp: React.FC = () => {
                     <FontAwesomeIcon icon={faTrash} className="mr-2" />
                     Clear Chat
                   </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-white border-white/20 hover:bg-white/10"
+                    onClick={() => {
+                      setShowSidebar(false);
+                      setShowMemory(true);
+                    }}
+                  >
+                    <FontAwesomeIcon icon={faBrain} className="mr-2" />
+                    Memory
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-white border-white/20 hover:bg-white/10"
+                    onClick={() => {
+                      setShowSidebar(false);
+                      setShowNotes(true);
+                    }}
+                  >
+                    <FontAwesomeIcon icon={faNoteSticky} className="mr-2" />
+                    Notes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className="w-full justify-start text-white border-white/20 hover:bg-white/10"
+                    onClick={() => {
+                      setShowSidebar(false);
+                      setShowPrompts(true);
+                    }}
+                  >
+                    <FontAwesomeIcon icon={faFileAlt} className="mr-2" />
+                    Prompt Templates
+                  </Button>
                   <Button
                     variant="outline"
                     className="w-full justify-start text-white border-white/20 hover:bg-white/10"
@@ -624,6 +1004,24 @@ const ChatApp: React.FC = () => {
             </div>
             
             <div className="flex items-center space-x-2">
+              {contextBudget && (
+                <div
+                  className="px-3 py-1 rounded-full text-xs font-medium bg-white/10 text-white/80 border border-white/20 flex items-center space-x-2"
+                  title={`About ${contextBudget.usedTokens} of ${contextBudget.maxTokens} tokens used`}
+                >
+                  <span>Context</span>
+                  <div className="w-16 h-1.5 rounded-full bg-white/20 overflow-hidden">
+                    <div
+                      className={cn(
+                        "h-full rounded-full transition-all duration-300",
+                        contextBudget.ratio < 0.5 ? "bg-green-400" : contextBudget.ratio < 0.75 ? "bg-amber-400" : "bg-red-400"
+                      )}
+                      style={{ width: `${Math.min(100, Math.round(contextBudget.ratio * 100))}%` }}
+                    />
+                  </div>
+                  <span>{Math.round(contextBudget.ratio * 100)}%</span>
+                </div>
+              )}
               {availability && (
                 <div className={cn(
                   "px-3 py-1 rounded-full text-xs font-medium",
@@ -666,7 +1064,7 @@ const ChatApp: React.FC = () => {
                 currentScenario={currentScenario}
                 jsonSchema={jsonSchema}
                 onJsonSchemaChange={setJsonSchema}
-                toolManagerComponent={currentScenario === 'tools' ? (
+                toolManagerComponent={currentScenario === 'tools' || currentScenario === 'agent' ? (
                   <ToolManager
                     selectedTools={selectedTools}
                     onToolSelectionChange={setSelectedTools}
@@ -687,21 +1085,66 @@ const ChatApp: React.FC = () => {
               exit={{ opacity: 0, y: -20 }}
               className="bg-red-500/20 border border-red-500/30 text-red-400 p-4 m-4 rounded-lg"
             >
-              <div className="flex items-center justify-between">
-                <span>{error}</span>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={() => setError(null)}
-                  className="text-red-400 hover:bg-red-500/20"
-                >
-                  <FontAwesomeIcon icon={faTimes} />
-                </Button>
+              <div className="flex items-start justify-between">
+                <div className="space-y-1">
+                  <div className="font-medium">{error.title}</div>
+                  <div className="text-sm">{error.message}</div>
+                  <div className="text-xs text-red-300/80">{error.hint}</div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {recoveryLabels[error.recovery] && (error.recovery === 'checkSettings' || lastPromptRef.current) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => recoverFromError(error.recovery)}
+                      className="text-red-300 border-red-400/30 hover:bg-red-500/20"
+                    >
+                      <FontAwesomeIcon icon={error.recovery === 'retry' ? faRedo : faPen} className="mr-2" />
+                      {recoveryLabels[error.recovery]}
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setError(null)}
+                    className="text-red-400 hover:bg-red-500/20"
+                  >
+                    <FontAwesomeIcon icon={faTimes} />
+                  </Button>
+                </div>
               </div>
             </motion.div>
           )}
         </AnimatePresence>
 
+        {/* Retry Status */}
+        <AnimatePresence>
+          {retryStatus && isLoading && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="bg-amber-500/20 border border-amber-500/30 text-amber-300 px-4 py-2 mx-4 mt-4 rounded-lg text-sm"
+            >
+              {presentError(retryStatus.error).title} – retrying (attempt {retryStatus.attempt} of {retryStatus.maxAttempts})…
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Queue Status */}
+        <AnimatePresence>
+          {queueState.pending > 0 && isLoading && (
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              exit={{ opacity: 0, y: -20 }}
+              className="bg-sky-500/20 border border-sky-500/30 text-sky-300 px-4 py-2 mx-4 mt-4 rounded-lg text-sm"
+            >
+              Waiting for the model – {queueState.pending} {queueState.pending === 1 ? 'request' : 'requests'} queued…
+            </motion.div>
+          )}
+        </AnimatePresence>
+
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-4 space-y-4">
           <AnimatePresence>
@@ -744,6 +1187,17 @@ const ChatApp: React.FC = () => {
                           </div>
                         )}
                       </div>
+                      {/* The scratchpad already shows the agent's tool calls with their observations */}
+                      {message.scenario === 'agent' ? (
+                        <AgentScratchpad
+                          steps={message.isStreaming ? liveAgentSteps : message.metadata?.agentSteps ?? []}
+                          isRunning={message.isStreaming}
+                        />
+                      ) : (
+                        <ToolCallTimeline
+                          calls={message.isStreaming ? liveToolCalls : message.metadata?.toolCalls ?? []}
+                        />
+                      )}
                       <div className="whitespace-pre-wrap break-words">
                         {message.isStreaming ? streamingContent : message.content}
                         {message.isStreaming && (
@@ -760,6 +1214,8 @@ const ChatApp: React.FC = () => {
                           {message.metadata.summary && "📝 Summary"}
                           {message.metadata.tools && `🔧 Tools: ${message.metadata.tools.length}`}
                           {message.metadata.instructions && "📋 With Instructions"}
+                          {message.metadata.hitStepLimit && "⏱ Step limit reached"}
+                          {message.metadata.cancelled && "⏹ Stopped"}
                         </div>
                       )}
                     </div>
@@ -790,9 +1246,9 @@ const ChatApp: React.FC = () => {
               />
             </div>
             <div className="flex space-x-2">
-              {isStreaming && (
+              {(isLoading || isStreaming) && (
                 <Button
-                  onClick={stopStreaming}
+                  onClick={stopGeneration}
                   variant="outline"
                   size="icon"
                   className="text-red-400 border-red-400/30 hover:bg-red-500/20"
@@ -801,7 +1257,7 @@ const ChatApp: React.FC = () => {
                 </Button>
               )}
               <Button
-                onClick={sendMessage}
+                onClick={() => sendMessage()}
                 disabled={!inputMessage.trim() || isLoading || !availability?.available}
                 className="bg-purple-600 hover:bg-purple-700 text-white"
                 size="icon"
@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faChevronDown,
+  faChevronRight,
+  faExclamationTriangle,
+  faFlagCheckered,
+  faWrench
+} from '@fortawesome/free-solid-svg-icons';
+import { cn } from '../lib/utils';
+import type { AgentStep } from '../services/agent.runner';
+
+const StepRow: React.FC<{ step: AgentStep; index: number }> = ({ step, index }) => (
+  <div className="space-y-1">
+    <div className="flex items-center space-x-2">
+      <span className="opacity-50 w-12 flex-shrink-0">Step {index + 1}</span>
+      <FontAwesomeIcon
+        icon={step.type === 'tool' ? faWrench : step.type === 'final' ? faFlagCheckered : faExclamationTriangle}
+        className={cn('w-3', step.type === 'invalid' || (step.type === 'tool' && step.error) ? 'text-amber-300' : 'opacity-60')}
+      />
+      <span className="font-mono truncate">
+        {step.type === 'tool' ? step.toolName : step.type === 'final' ? 'final answer' : 'invalid action'}
+      </span>
+    </div>
+    {step.thought && <div className="pl-14 italic opacity-80">{step.thought}</div>}
+    {step.type === 'tool' && (
+      <div className="pl-14 space-y-1">
+        <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 font-mono">{step.arguments || '(no arguments)'}</pre>
+        <pre className={cn(
+          'whitespace-pre-wrap break-words rounded p-2 font-mono max-h-40 overflow-y-auto',
+          step.error ? 'bg-red-500/10 text-red-300' : 'bg-black/30'
+        )}>
+          {step.error ? `${step.error.code}: ${step.error.message}` : step.observation}
+        </pre>
+      </div>
+    )}
+    {step.type === 'invalid' && <div className="pl-14 text-amber-300">{step.problem}</div>}
+  </div>
+);
+
+// The agent's thoughts, actions and observations; collapsed once the answer is in
+const AgentScratchpad: React.FC<{ steps: AgentStep[]; isRunning?: boolean }> = ({ steps, isRunning = false }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  if (steps.length === 0 && !isRunning) return null;
+
+  const showSteps = isRunning || isExpanded;
+  const toolSteps = steps.filter(step => step.type === 'tool').length;
+
+  return (
+    <div className="mt-2 rounded-lg border border-white/15 bg-black/20 text-xs">
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        disabled={isRunning}
+        className="w-full flex items-center space-x-2 px-3 py-2 text-left"
+      >
+        <FontAwesomeIcon icon={showSteps ? faChevronDown : faChevronRight} className="opacity-60 w-3" />
+        <span className="flex-1">Scratchpad</span>
+        {isRunning ? (
+          <motion.span
+            animate={{ opacity: [1, 0.3] }}
+            transition={{ duration: 0.8, repeat: Infinity, repeatType: 'reverse' }}
+            className="opacity-70"
+          >
+            thinking… step {steps.length + 1}
+          </motion.span>
+        ) : (
+          <span className="opacity-60">
+            {steps.length} {steps.length === 1 ? 'step' : 'steps'} · {toolSteps} tool {toolSteps === 1 ? 'call' : 'calls'}
+          </span>
+        )}
+      </button>
+      <AnimatePresence initial={false}>
+        {showSteps && steps.length > 0 && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-3">
+              {steps.map((step, index) => (
+                <StepRow key={index} step={step} index={index} />
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AgentScratchpad;
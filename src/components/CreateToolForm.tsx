@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import type { JSONSchema } from '../services/json.schema';
+import {
+  parseUserToolSchema,
+  userToolStore,
+  validateUserToolDraft,
+  type UserToolDraft,
+  type UserToolSpec
+} from '../services/user.tools';
+
+interface CreateToolFormProps {
+  // IDs and names of the built-in tools
+  reservedNames: string[];
+  onCreated: (spec: UserToolSpec) => void;
+  onCancel: () => void;
+}
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "a": { "type": "number" },
+    "b": { "type": "number" }
+  },
+  "required": ["a", "b"]
+}`;
+
+const EXAMPLE_CODE = 'return { sum: args.a + args.b };';
+
+// Collects a user-defined tool; its handler body later runs in a sandboxed worker
+const CreateToolForm: React.FC<CreateToolFormProps> = ({ reservedNames, onCreated, onCancel }) => {
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [schema, setSchema] = useState(EXAMPLE_SCHEMA);
+  const [code, setCode] = useState(EXAMPLE_CODE);
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const create = () => {
+    let parameters: JSONSchema;
+    try {
+      parameters = parseUserToolSchema(schema);
+    } catch (error) {
+      setProblems([(error as Error).message]);
+      return;
+    }
+
+    const draft: UserToolDraft = { name: name.trim(), description: description.trim(), parameters, code };
+    const found = validateUserToolDraft(draft, userToolStore.list(), reservedNames);
+    if (found.length > 0) {
+      setProblems(found);
+      return;
+    }
+    onCreated(userToolStore.create(draft, reservedNames));
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: -10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-3 p-3 rounded-lg bg-white/5 border border-white/10"
+    >
+      <div className="space-y-1">
+        <label className="block text-white/80 text-xs font-medium">Name</label>
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="add_numbers"
+          className="bg-white/10 border-white/20 text-white placeholder:text-white/40 font-mono"
+        />
+      </div>
+      <div className="space-y-1">
+        <label className="block text-white/80 text-xs font-medium">Description</label>
+        <Input
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          placeholder="Adds two numbers"
+          className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+        />
+      </div>
+      <div className="space-y-1">
+        <label className="block text-white/80 text-xs font-medium">Argument schema (JSON)</label>
+        <Textarea
+          value={schema}
+          onChange={(e) => setSchema(e.target.value)}
+          className="bg-white/10 border-white/20 text-white font-mono text-xs"
+          rows={7}
+        />
+      </div>
+      <div className="space-y-1">
+        <label className="block text-white/80 text-xs font-medium">
+          Handler body <span className="font-mono text-white/50">async (args) =&gt; {'{ … }'}</span>
+        </label>
+        <Textarea
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="bg-white/10 border-white/20 text-white font-mono text-xs"
+          rows={5}
+        />
+        <p className="text-xs text-white/60">
+          Runs in a separate worker without DOM access and is stopped after a few seconds. Only add code you trust: the worker is not cut off from the network.
+        </p>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-xs text-red-300 list-disc pl-4 space-y-1">
+          {problems.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={onCancel} className="text-white hover:bg-white/10">
+          Cancel
+        </Button>
+        <Button size="sm" onClick={create} className="bg-purple-600 hover:bg-purple-700 text-white">
+          Create tool
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
+
+export default CreateToolForm;
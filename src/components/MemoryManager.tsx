@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faBrain, faCheck, faPen, faTimes, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { memoryStore, type MemoryFact } from '../services/memory.store';
+
+interface MemoryManagerProps {
+  enabled: boolean;
+  onClose: () => void;
+}
+
+// Facts the memory tool has stored, editable and deletable by the user
+const MemoryManager: React.FC<MemoryManagerProps> = ({ enabled, onClose }) => {
+  const [facts, setFacts] = useState<MemoryFact[]>(() => memoryStore.list());
+  const [editingKey, setEditingKey] = useState<string | null>(null);
+  const [draftKey, setDraftKey] = useState('');
+  const [draftValue, setDraftValue] = useState('');
+
+  // The model may remember or forget facts while the screen is open
+  useEffect(() => memoryStore.on('change', setFacts), []);
+
+  const startEditing = (fact: MemoryFact) => {
+    setEditingKey(fact.key);
+    setDraftKey(fact.key);
+    setDraftValue(fact.value);
+  };
+
+  const saveEdit = () => {
+    if (!editingKey || !draftKey.trim() || !draftValue.trim()) return;
+    // Renaming a fact replaces it under the new key
+    if (draftKey.trim() !== editingKey) memoryStore.forget(editingKey);
+    memoryStore.remember(draftKey, draftValue);
+    setEditingKey(null);
+  };
+
+  const clearAll = () => {
+    if (confirm('Delete everything the assistant remembers?')) memoryStore.clear();
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+        onClick={onClose}
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="w-full max-w-xl max-h-[80vh] flex flex-col bg-slate-900/95 border border-white/20 rounded-2xl p-6 text-white pointer-events-auto">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 rounded-full bg-purple-500/30 flex items-center justify-center">
+                <FontAwesomeIcon icon={faBrain} className="text-purple-300" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold">Memory</h2>
+                <p className="text-sm text-white/60">
+                  {enabled ? 'What the assistant remembers about you' : 'Memory is turned off in the settings'}
+                </p>
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose} className="text-white hover:bg-white/10">
+              <FontAwesomeIcon icon={faTimes} />
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {facts.length === 0 && (
+              <p className="text-sm text-white/60 text-center py-8">Nothing remembered yet.</p>
+            )}
+            {facts.map(fact => (
+              <div key={fact.key} className="bg-white/5 border border-white/10 rounded-lg p-3">
+                {editingKey === fact.key ? (
+                  <div className="space-y-2">
+                    <Input
+                      value={draftKey}
+                      onChange={(e) => setDraftKey(e.target.value)}
+                      className="bg-white/10 border-white/20 text-white"
+                    />
+                    <Textarea
+                      value={draftValue}
+                      onChange={(e) => setDraftValue(e.target.value)}
+                      className="bg-white/10 border-white/20 text-white"
+                      rows={2}
+                    />
+                    <div className="flex justify-end space-x-2">
+                      <Button variant="ghost" size="sm" onClick={() => setEditingKey(null)} className="text-white hover:bg-white/10">
+                        Cancel
+                      </Button>
+                      <Button size="sm" onClick={saveEdit} className="bg-purple-600 hover:bg-purple-700 text-white">
+                        <FontAwesomeIcon icon={faCheck} className="mr-2" />
+                        Save
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex items-start justify-between space-x-3">
+                    <div className="min-w-0">
+                      <div className="text-xs text-white/60">{fact.key}</div>
+                      <div className="text-sm break-words">{fact.value}</div>
+                      <div className="text-xs text-white/40 mt-1">
+                        Updated {new Date(fact.updatedAt).toLocaleString()}
+                      </div>
+                    </div>
+                    <div className="flex space-x-1 flex-shrink-0">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(fact)} className="text-white/70 hover:bg-white/10">
+                        <FontAwesomeIcon icon={faPen} />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => memoryStore.forget(fact.key)} className="text-red-400 hover:bg-red-500/20">
+                        <FontAwesomeIcon icon={faTrash} />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {facts.length > 0 && (
+            <div className="flex justify-end pt-4 border-t border-white/10 mt-4">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={clearAll}
+                className="text-red-300 border-red-400/30 hover:bg-red-500/20"
+              >
+                <FontAwesomeIcon icon={faTrash} className="mr-2" />
+                Forget everything
+              </Button>
+            </div>
+          )}
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+export default MemoryManager;
@@ -0,0 +1,163 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faNoteSticky, faPen, faPlus, faTimes, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { notesStore, type Note } from '../services/notes.store';
+
+interface NotesManagerProps {
+  onClose: () => void;
+}
+
+interface NoteDraft {
+  // Undefined while writing a new note
+  id?: string;
+  title: string;
+  body: string;
+  tags: string;
+}
+
+const parseTags = (text: string): string[] =>
+  text.split(',').map(tag => tag.trim()).filter(Boolean);
+
+// Notes the search_notes tool looks through, written and edited by the user
+const NotesManager: React.FC<NotesManagerProps> = ({ onClose }) => {
+  const [notes, setNotes] = useState<Note[]>(() => notesStore.list());
+  const [draft, setDraft] = useState<NoteDraft | null>(null);
+
+  useEffect(() => notesStore.on('change', setNotes), []);
+
+  const startEditing = (note: Note) => {
+    setDraft({ id: note.id, title: note.title, body: note.body, tags: note.tags.join(', ') });
+  };
+
+  const saveDraft = () => {
+    if (!draft || !draft.title.trim() || !draft.body.trim()) return;
+    notesStore.save({ id: draft.id, title: draft.title.trim(), body: draft.body.trim(), tags: parseTags(draft.tags) });
+    setDraft(null);
+  };
+
+  const remove = (note: Note) => {
+    if (confirm(`Delete the note "${note.title}"?`)) notesStore.delete(note.id);
+  };
+
+  const editor = draft && (
+    <div className="space-y-2 bg-white/5 border border-white/10 rounded-lg p-3">
+      <Input
+        value={draft.title}
+        onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+        placeholder="Title"
+        className="bg-white/10 border-white/20 text-white"
+      />
+      <Textarea
+        value={draft.body}
+        onChange={(e) => setDraft({ ...draft, body: e.target.value })}
+        placeholder="Note"
+        className="bg-white/10 border-white/20 text-white"
+        rows={4}
+      />
+      <Input
+        value={draft.tags}
+        onChange={(e) => setDraft({ ...draft, tags: e.target.value })}
+        placeholder="Tags, separated by commas"
+        className="bg-white/10 border-white/20 text-white"
+      />
+      <div className="flex justify-end space-x-2">
+        <Button variant="ghost" size="sm" onClick={() => setDraft(null)} className="text-white hover:bg-white/10">
+          Cancel
+        </Button>
+        <Button
+          size="sm"
+          onClick={saveDraft}
+          disabled={!draft.title.trim() || !draft.body.trim()}
+          className="bg-purple-600 hover:bg-purple-700 text-white"
+        >
+          <FontAwesomeIcon icon={faCheck} className="mr-2" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+        onClick={onClose}
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="w-full max-w-xl max-h-[80vh] flex flex-col bg-slate-900/95 border border-white/20 rounded-2xl p-6 text-white pointer-events-auto">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 rounded-full bg-purple-500/30 flex items-center justify-center">
+                <FontAwesomeIcon icon={faNoteSticky} className="text-purple-300" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold">Notes</h2>
+                <p className="text-sm text-white/60">Searchable by the assistant with the Notes Lookup tool</p>
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose} className="text-white hover:bg-white/10">
+              <FontAwesomeIcon icon={faTimes} />
+            </Button>
+          </div>
+
+          <div className="flex-1 overflow-y-auto space-y-2">
+            {draft && !draft.id && editor}
+            {notes.length === 0 && !draft && (
+              <p className="text-sm text-white/60 text-center py-8">No notes yet.</p>
+            )}
+            {notes.map(note => draft?.id === note.id ? (
+              <React.Fragment key={note.id}>{editor}</React.Fragment>
+            ) : (
+              <div key={note.id} className="bg-white/5 border border-white/10 rounded-lg p-3">
+                <div className="flex items-start justify-between space-x-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium break-words">{note.title}</div>
+                    <div className="text-sm text-white/80 break-words whitespace-pre-wrap line-clamp-3">{note.body}</div>
+                    <div className="text-xs text-white/40 mt-1">
+                      {note.tags.length > 0 && `${note.tags.join(', ')} · `}
+                      Updated {new Date(note.updatedAt).toLocaleString()}
+                    </div>
+                  </div>
+                  <div className="flex space-x-1 flex-shrink-0">
+                    <Button variant="ghost" size="icon" onClick={() => startEditing(note)} className="text-white/70 hover:bg-white/10">
+                      <FontAwesomeIcon icon={faPen} />
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => remove(note)} className="text-red-400 hover:bg-red-500/20">
+                      <FontAwesomeIcon icon={faTrash} />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex justify-end pt-4 border-t border-white/10 mt-4">
+            <Button
+              size="sm"
+              onClick={() => setDraft({ title: '', body: '', tags: '' })}
+              disabled={draft !== null}
+              className="bg-purple-600 hover:bg-purple-700 text-white"
+            >
+              <FontAwesomeIcon icon={faPlus} className="mr-2" />
+              New note
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+export default NotesManager;
@@ -0,0 +1,343 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFileAlt, faHistory, faPlus, faSave, faTimes, faTrash, faUndo } from '@fortawesome/free-solid-svg-icons';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { Textarea } from './ui/textarea';
+import { cn } from '../lib/utils';
+import { promptLibrary, type PromptTemplate, type PromptTemplateDraft } from '../services/prompt.library';
+import type { PromptValues, PromptVariable } from '../services/prompt.template';
+
+interface PromptTemplateManagerProps {
+  onClose: () => void;
+}
+
+const NEW_TEMPLATE_BODY = 'Answer the question below{{#if tone}} in a {{tone}} tone{{/if}}.\n\n{{question}}';
+
+const NEW_TEMPLATE_VARIABLES: PromptVariable[] = [
+  { name: 'question', type: 'string', required: true, example: 'Why is the sky blue?' },
+  { name: 'tone', type: 'string', example: 'friendly' }
+];
+
+// The variables are edited as JSON; anything but a list of declarations is reported as a problem
+const parseVariables = (text: string): PromptVariable[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The variables are not valid JSON: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(parsed) || parsed.some(variable =>
+    typeof variable?.name !== 'string' || !['string', 'number', 'boolean'].includes(variable?.type))) {
+    throw new Error('The variables must be a list of { "name", "type": "string" | "number" | "boolean" } objects');
+  }
+  return parsed as PromptVariable[];
+};
+
+// Preview inputs hold text; numbers are converted and left unset while empty or invalid
+const previewValues = (variables: PromptVariable[], inputs: Record<string, string>): PromptValues =>
+  Object.fromEntries(variables.map(variable => {
+    const input = inputs[variable.name] ?? '';
+    if (variable.type === 'boolean') return [variable.name, input === 'true'];
+    if (variable.type === 'number') return [variable.name, input.trim() && Number.isFinite(Number(input)) ? Number(input) : undefined];
+    return [variable.name, input];
+  }));
+
+// Named prompt templates with their versions, editable with a live preview
+const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ onClose }) => {
+  const [templates, setTemplates] = useState<PromptTemplate[]>(() => promptLibrary.list());
+  const [selectedName, setSelectedName] = useState<string>(() => templates[0]?.name ?? '');
+  const [isNew, setIsNew] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [body, setBody] = useState('');
+  const [variablesText, setVariablesText] = useState('[]');
+  const [note, setNote] = useState('');
+  const [previewInputs, setPreviewInputs] = useState<Record<string, string>>({});
+  const [problems, setProblems] = useState<string[]>([]);
+
+  useEffect(() => promptLibrary.on('change', setTemplates), []);
+
+  const selected = templates.find(template => template.name === selectedName);
+
+  // Loads the current version of the selected template into the editor
+  useEffect(() => {
+    if (isNew || !selected) return;
+    const current = selected.versions[selected.versions.length - 1];
+    setName(selected.name);
+    setDescription(current.description);
+    setBody(current.body);
+    setVariablesText(JSON.stringify(current.variables, null, 2));
+    setNote('');
+    setProblems([]);
+  }, [isNew, selected]);
+
+  const variables = useMemo(() => {
+    try {
+      return parseVariables(variablesText);
+    } catch {
+      return null;
+    }
+  }, [variablesText]);
+
+  const preview = variables
+    ? promptLibrary.preview({ body, variables }, previewValues(variables, previewInputs), name || undefined)
+    : { ok: false as const, error: 'Fix the variables to see a preview' };
+
+  const startNew = () => {
+    setIsNew(true);
+    setName('');
+    setDescription('');
+    setBody(NEW_TEMPLATE_BODY);
+    setVariablesText(JSON.stringify(NEW_TEMPLATE_VARIABLES, null, 2));
+    setNote('');
+    setPreviewInputs({});
+    setProblems([]);
+  };
+
+  const select = (templateName: string) => {
+    setIsNew(false);
+    setSelectedName(templateName);
+    setPreviewInputs({});
+  };
+
+  const save = () => {
+    let parsed: PromptVariable[];
+    try {
+      parsed = parseVariables(variablesText);
+    } catch (error) {
+      setProblems([(error as Error).message]);
+      return;
+    }
+
+    const templateName = name.trim();
+    const draft: PromptTemplateDraft = { description: description.trim(), body, variables: parsed, note: note.trim() || undefined };
+    if (isNew && promptLibrary.get(templateName)) {
+      setProblems([`A template named ${templateName} already exists`]);
+      return;
+    }
+    const found = promptLibrary.validate(templateName, draft);
+    if (found.length > 0) {
+      setProblems(found);
+      return;
+    }
+    promptLibrary.save(templateName, draft);
+    setIsNew(false);
+    setSelectedName(templateName);
+    setNote('');
+  };
+
+  const remove = () => {
+    if (!selected || !confirm(`Delete the template ${selected.name} and its history?`)) return;
+    promptLibrary.delete(selected.name);
+    setSelectedName(promptLibrary.list()[0]?.name ?? '');
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+        onClick={onClose}
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4 pointer-events-none"
+      >
+        <div className="w-full max-w-5xl max-h-[90vh] flex flex-col bg-slate-900/95 border border-white/20 rounded-2xl p-6 text-white pointer-events-auto">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-3">
+              <div className="w-10 h-10 rounded-full bg-purple-500/30 flex items-center justify-center">
+                <FontAwesomeIcon icon={faFileAlt} className="text-purple-300" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold">Prompt Templates</h2>
+                <p className="text-sm text-white/60">Prompts the app sends, with their version history</p>
+              </div>
+            </div>
+            <Button variant="ghost" size="icon" onClick={onClose} className="text-white hover:bg-white/10">
+              <FontAwesomeIcon icon={faTimes} />
+            </Button>
+          </div>
+
+          <div className="flex-1 min-h-0 grid grid-cols-1 md:grid-cols-[14rem_1fr] gap-4">
+            {/* Template list */}
+            <div className="overflow-y-auto space-y-2">
+              {templates.map(template => (
+                <button
+                  key={template.name}
+                  onClick={() => select(template.name)}
+                  className={cn(
+                    "w-full text-left p-2 rounded-lg border text-sm",
+                    !isNew && template.name === selectedName
+                      ? 'bg-white/20 border-white/30'
+                      : 'bg-white/5 border-white/10 hover:bg-white/10'
+                  )}
+                >
+                  <div className="font-mono truncate">{template.name}</div>
+                  <div className="text-xs text-white/50">
+                    {template.builtIn ? 'Built in' : 'Custom'} · v{template.versions[template.versions.length - 1].version}
+                  </div>
+                </button>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={startNew}
+                className="w-full text-white border-white/20 hover:bg-white/10"
+              >
+                <FontAwesomeIcon icon={faPlus} className="mr-2" />
+                New template
+              </Button>
+            </div>
+
+            {/* Editor and preview */}
+            <div className="overflow-y-auto space-y-3 pr-1">
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <label className="block text-white/80 text-xs font-medium">Name</label>
+                  <Input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    disabled={!isNew}
+                    placeholder="email.reply"
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/40 font-mono"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <label className="block text-white/80 text-xs font-medium">Description</label>
+                  <Input
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="Where the template is used"
+                    className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <label className="block text-white/80 text-xs font-medium">
+                  Template <span className="font-mono text-white/50">{'{{name}}  {{> partial}}  {{#if name}} … {{else}} … {{/if}}'}</span>
+                </label>
+                <Textarea
+                  value={body}
+                  onChange={(e) => setBody(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white font-mono text-xs"
+                  rows={7}
+                />
+              </div>
+
+              <div className="space-y-1">
+                <label className="block text-white/80 text-xs font-medium">Variables (JSON)</label>
+                <Textarea
+                  value={variablesText}
+                  onChange={(e) => setVariablesText(e.target.value)}
+                  className="bg-white/10 border-white/20 text-white font-mono text-xs"
+                  rows={6}
+                />
+              </div>
+
+              {problems.length > 0 && (
+                <ul className="text-xs text-red-300 list-disc pl-4 space-y-1">
+                  {problems.map(problem => <li key={problem}>{problem}</li>)}
+                </ul>
+              )}
+
+              <div className="flex items-center space-x-2">
+                <Input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="What changed (optional)"
+                  className="bg-white/10 border-white/20 text-white placeholder:text-white/40"
+                />
+                <Button size="sm" onClick={save} className="bg-purple-600 hover:bg-purple-700 text-white flex-shrink-0">
+                  <FontAwesomeIcon icon={faSave} className="mr-2" />
+                  {isNew ? 'Create' : 'Save version'}
+                </Button>
+                {!isNew && selected && !selected.builtIn && (
+                  <Button variant="ghost" size="icon" onClick={remove} className="text-red-400 hover:bg-red-500/20 flex-shrink-0">
+                    <FontAwesomeIcon icon={faTrash} />
+                  </Button>
+                )}
+              </div>
+
+              {/* Preview */}
+              <div className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2">
+                <div className="text-xs font-medium text-white/80">Preview</div>
+                {variables && variables.length > 0 && (
+                  <div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+                    {variables.map(variable => variable.type === 'boolean' ? (
+                      <label key={variable.name} className="flex items-center space-x-2 text-xs">
+                        <input
+                          type="checkbox"
+                          checked={previewInputs[variable.name] === 'true'}
+                          onChange={(e) => setPreviewInputs({ ...previewInputs, [variable.name]: String(e.target.checked) })}
+                          className="rounded border-white/20 bg-white/10 text-purple-600 focus:ring-purple-500"
+                        />
+                        <span className="font-mono">{variable.name}</span>
+                      </label>
+                    ) : (
+                      <Input
+                        key={variable.name}
+                        value={previewInputs[variable.name] ?? ''}
+                        onChange={(e) => setPreviewInputs({ ...previewInputs, [variable.name]: e.target.value })}
+                        placeholder={`${variable.name}${variable.example !== undefined ? ` (e.g. ${variable.example})` : ''}`}
+                        className="bg-white/10 border-white/20 text-white placeholder:text-white/40 text-xs h-8"
+                      />
+                    ))}
+                  </div>
+                )}
+                {preview.ok ? (
+                  <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 font-mono text-xs">{preview.text}</pre>
+                ) : (
+                  <div className="text-xs text-amber-300">{preview.error}</div>
+                )}
+              </div>
+
+              {/* Version history */}
+              {!isNew && selected && (
+                <div className="space-y-2">
+                  <div className="flex items-center space-x-2 text-xs font-medium text-white/80">
+                    <FontAwesomeIcon icon={faHistory} />
+                    <span>History</span>
+                  </div>
+                  {[...selected.versions].reverse().map((version, index) => (
+                    <div key={version.version} className="flex items-center justify-between bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-xs">
+                      <div className="min-w-0">
+                        <span className="font-mono">v{version.version}</span>
+                        <span className="text-white/50 ml-2">
+                          {version.savedAt ? new Date(version.savedAt).toLocaleString() : 'Shipped with the app'}
+                        </span>
+                        {version.note && <span className="text-white/70 ml-2">{version.note}</span>}
+                      </div>
+                      {index === 0 ? (
+                        <span className="text-white/50">current</span>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => promptLibrary.restore(selected.name, version.version)}
+                          className="text-white/80 hover:bg-white/10 h-7"
+                        >
+                          <FontAwesomeIcon icon={faUndo} className="mr-2" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+export default PromptTemplateManager;
@@ -8,6 +8,8 @@ interface Settings {
   maxTokens: number;
   enableStreaming: boolean;
   enableInstructions: boolean;
+  enableMemory: boolean;
+  agentMaxSteps: number;
 }
 
 interface SettingsPanelProps {
@@ -117,6 +119,25 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
             Additional instructions for the model
           </p>
         </motion.div>
+
+        <motion.div
+          initial={false}
+          animate={{ opacity: 1, y: 0 }}
+          className="space-y-2"
+        >
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={settings.enableMemory}
+              onChange={(e) => updateSetting('enableMemory', e.target.checked)}
+              className="rounded border-white/20 bg-white/10 text-purple-600 focus:ring-purple-500"
+            />
+            <span className="text-white/80 text-sm">Memory</span>
+          </label>
+          <p className="text-xs text-white/60">
+            Let the model remember facts about you across chats
+          </p>
+        </motion.div>
       </div>
 
       {settings.enableInstructions && (
@@ -164,7 +185,31 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({
         </motion.div>
       )}
       
-      {currentScenario === 'tools' && toolManagerComponent && (
+      {currentScenario === 'agent' && (
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.3 }}
+          className="space-y-2 max-w-sm"
+        >
+          <label className="block text-white/80 text-sm font-medium">
+            Max Agent Steps: {settings.agentMaxSteps}
+          </label>
+          <Slider
+            value={[settings.agentMaxSteps]}
+            onValueChange={([value]) => updateSetting('agentMaxSteps', value)}
+            max={12}
+            min={2}
+            step={1}
+            className="w-full"
+          />
+          <p className="text-xs text-white/60">
+            Tool calls the agent may make before it has to answer
+          </p>
+        </motion.div>
+      )}
+
+      {(currentScenario === 'tools' || currentScenario === 'agent') && toolManagerComponent && (
         <motion.div
           initial={{ opacity: 0, y: 20 }}
           animate={{ opacity: 1, y: 0 }}
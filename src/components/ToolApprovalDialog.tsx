@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faPen, faShieldAlt, faTimes } from '@fortawesome/free-solid-svg-icons';
+import { Button } from './ui/button';
+import { Textarea } from './ui/textarea';
+import type { ToolApprovalDecision, ToolApprovalRequest } from '../services/foundation.models.service';
+
+interface ToolApprovalDialogProps {
+  request: ToolApprovalRequest;
+  // Further calls waiting behind this one
+  queuedCount: number;
+  onDecision: (decision: ToolApprovalDecision) => void;
+}
+
+const formatArguments = (payload: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+// Mount with `key={request.callId}` so the edit state resets for each call
+const ToolApprovalDialog: React.FC<ToolApprovalDialogProps> = ({ request, queuedCount, onDecision }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editedArguments, setEditedArguments] = useState(() => formatArguments(request.arguments));
+  const [editError, setEditError] = useState<string | null>(null);
+
+  const approve = () => {
+    if (!isEditing) {
+      onDecision({ approved: true });
+      return;
+    }
+    try {
+      // Compact the edited JSON again so the tool receives the same shape as from the model
+      onDecision({ approved: true, arguments: JSON.stringify(JSON.parse(editedArguments)) });
+    } catch {
+      setEditError('Arguments must be valid JSON.');
+    }
+  };
+
+  return (
+    <>
+      <motion.div
+        initial={{ opacity: 0 }}
+        animate={{ opacity: 1 }}
+        exit={{ opacity: 0 }}
+        className="fixed inset-0 bg-black/50 backdrop-blur-sm z-40"
+      />
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        className="fixed inset-0 z-50 flex items-center justify-center p-4"
+      >
+        <div className="w-full max-w-lg bg-slate-900/95 border border-white/20 rounded-2xl p-6 text-white space-y-4">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 rounded-full bg-amber-500/30 flex items-center justify-center">
+              <FontAwesomeIcon icon={faShieldAlt} className="text-amber-300" />
+            </div>
+            <div>
+              <h2 className="text-lg font-semibold">Allow tool call?</h2>
+              <p className="text-sm text-white/60">
+                The model wants to run <span className="font-mono text-white">{request.toolName}</span>
+                {queuedCount > 0 && ` (${queuedCount} more waiting)`}
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <div className="text-xs text-white/60 mb-1">Arguments</div>
+            {isEditing ? (
+              <Textarea
+                value={editedArguments}
+                onChange={(e) => {
+                  setEditedArguments(e.target.value);
+                  setEditError(null);
+                }}
+                className="bg-white/10 border-white/20 text-white font-mono text-xs"
+                rows={8}
+              />
+            ) : (
+              <pre className="whitespace-pre-wrap break-words bg-black/30 rounded-lg p-3 font-mono text-xs max-h-64 overflow-y-auto">
+                {formatArguments(request.arguments) || '(none)'}
+              </pre>
+            )}
+            {editError && <p className="text-xs text-red-300 mt-1">{editError}</p>}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            {!isEditing && (
+              <Button
+                variant="outline"
+                onClick={() => setIsEditing(true)}
+                className="text-white border-white/20 hover:bg-white/10"
+              >
+                <FontAwesomeIcon icon={faPen} className="mr-2" />
+                Edit
+              </Button>
+            )}
+            <Button
+              variant="outline"
+              onClick={() => onDecision({ approved: false })}
+              className="text-red-300 border-red-400/30 hover:bg-red-500/20"
+            >
+              <FontAwesomeIcon icon={faTimes} className="mr-2" />
+              Deny
+            </Button>
+            <Button onClick={approve} className="bg-purple-600 hover:bg-purple-700 text-white">
+              <FontAwesomeIcon icon={faCheck} className="mr-2" />
+              {isEditing ? 'Approve edited' : 'Approve'}
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </>
+  );
+};
+
+export default ToolApprovalDialog;
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faChevronDown, faChevronRight, faWrench } from '@fortawesome/free-solid-svg-icons';
+import { cn } from '../lib/utils';
+import type { ToolCallFinishedEvent, ToolCallStartedEvent } from '../services/foundation.models.service';
+
+// A tool call as shown in the chat; the finish fields are unset while it runs
+export type ToolCallRecord = ToolCallStartedEvent & Partial<Pick<ToolCallFinishedEvent, 'output' | 'durationMs' | 'error' | 'logs'>>;
+
+// Pretty-prints JSON payloads and leaves anything else untouched
+const formatPayload = (payload: string): string => {
+  if (!payload.trim()) return '(none)';
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+const ToolCallCard: React.FC<{ call: ToolCallRecord }> = ({ call }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const isRunning = call.output === undefined;
+
+  return (
+    <div className={cn(
+      "rounded-lg border text-xs",
+      call.error ? 'border-red-400/30 bg-red-500/10' : 'border-white/15 bg-black/20'
+    )}>
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        className="w-full flex items-center space-x-2 px-3 py-2 text-left"
+      >
+        <FontAwesomeIcon icon={isExpanded ? faChevronDown : faChevronRight} className="opacity-60 w-3" />
+        <FontAwesomeIcon icon={faWrench} className="opacity-60" />
+        <span className="font-mono flex-1 truncate">{call.toolName}</span>
+        {isRunning ? (
+          <motion.span
+            animate={{ opacity: [1, 0.3] }}
+            transition={{ duration: 0.8, repeat: Infinity, repeatType: 'reverse' }}
+            className="opacity-70"
+          >
+            running…
+          </motion.span>
+        ) : (
+          <span className={cn(call.error ? 'text-red-300' : 'opacity-60')}>
+            {call.error ? call.error.code : 'done'} · {call.durationMs} ms
+          </span>
+        )}
+      </button>
+      <AnimatePresence initial={false}>
+        {isExpanded && (
+          <motion.div
+            initial={{ height: 0, opacity: 0 }}
+            animate={{ height: 'auto', opacity: 1 }}
+            exit={{ height: 0, opacity: 0 }}
+            className="overflow-hidden"
+          >
+            <div className="px-3 pb-3 space-y-2">
+              <div>
+                <div className="opacity-60 mb-1">Arguments</div>
+                <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 font-mono">
+                  {formatPayload(call.arguments)}
+                </pre>
+              </div>
+              {call.error && (
+                <div className="text-red-300">{call.error.message}</div>
+              )}
+              {call.logs && (
+                <div>
+                  <div className="opacity-60 mb-1">Log</div>
+                  <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 font-mono">
+                    {call.logs.join('\n')}
+                  </pre>
+                </div>
+              )}
+              {!isRunning && (
+                <div>
+                  <div className="opacity-60 mb-1">Output</div>
+                  <pre className="whitespace-pre-wrap break-words bg-black/30 rounded p-2 font-mono">
+                    {formatPayload(call.output ?? '')}
+                  </pre>
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+// Tool calls made while generating a reply, in the order they started
+const ToolCallTimeline: React.FC<{ calls: ToolCallRecord[] }> = ({ calls }) => {
+  if (calls.length === 0) return null;
+
+  return (
+    <div className="mt-2 space-y-2">
+      {calls.map(call => (
+        <ToolCallCard key={call.callId} call={call} />
+      ))}
+    </div>
+  );
+};
+
+export default ToolCallTimeline;
@@ -1,8 +1,42 @@
 import React, { useState, useEffect } from 'react';
 import { motion } from 'framer-motion';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faClock, faCalculator, faLightbulb, faCheck } from '@fortawesome/free-solid-svg-icons';
-import { registerCustomTool } from '../services/foundation.models.service';
+import {
+  faClock,
+  faCalculator,
+  faLightbulb,
+  faCheck,
+  faRulerCombined,
+  faCalendarAlt,
+  faAlignLeft,
+  faSitemap,
+  faStickyNote,
+  faCode,
+  faPlus,
+  faTrash,
+  faGlobe
+} from '@fortawesome/free-solid-svg-icons';
+import { registerDefinedTool, unregisterTool } from '../services/foundation.models.service';
+import {
+  convertUnitsTool,
+  dateArithmeticTool,
+  jsonQueryTool,
+  MEMORY_TOOL_ID,
+  memoryTool,
+  notesLookupTool,
+  textStatisticsTool
+} from '../services/builtin.tools';
+import { evaluateExpression } from '../services/expression.evaluator';
+import { httpFetchTool } from '../services/http.fetch.tool';
+import { defineTool, type AnyToolDefinition } from '../services/tool.definition';
+import {
+  isReservedToolName,
+  registerUserTool,
+  userToolDefinition,
+  userToolStore,
+  type UserToolSpec
+} from '../services/user.tools';
+import CreateToolForm from './CreateToolForm';
 
 interface Tool {
   id: string;
@@ -10,7 +44,9 @@ interface Tool {
   description: string;
   icon: any;
   color: string;
-  handler: (input: string) => Promise<string> | string;
+  definition: AnyToolDefinition;
+  // Set for tools created in the app; they run in a sandboxed worker
+  userTool?: UserToolSpec;
 }
 
 interface ToolManagerProps {
@@ -26,15 +62,20 @@ const availableTools: Tool[] = [
     description: 'Returns the current date and time',
     icon: faClock,
     color: 'bg-blue-500',
-    handler: () => {
-      const now = new Date();
-      return `Current date and time: ${now.toLocaleDateString('en-US', {
-        weekday: 'long',
-        year: 'numeric',
-        month: 'long',
-        day: 'numeric'
-      })} at ${now.toLocaleTimeString('en-US')}`;
-    }
+    definition: defineTool({
+      name: 'get_current_time',
+      description: 'Returns the current date and time',
+      parameters: { type: 'object', properties: {} },
+      handler: () => {
+        const now = new Date();
+        return `Current date and time: ${now.toLocaleDateString('en-US', {
+          weekday: 'long',
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric'
+        })} at ${now.toLocaleTimeString('en-US')}`;
+      }
+    })
   },
   {
     id: 'calculator_tool',
@@ -42,26 +83,22 @@ const availableTools: Tool[] = [
     description: 'Performs mathematical calculations',
     icon: faCalculator,
     color: 'bg-green-500',
-    handler: (input: string) => {
-      try {
-        // Simple calculator - only safe mathematical operations
-        const sanitized = input.replace(/[^0-9+\-*/().\s]/g, '');
-        if (!sanitized.trim()) {
-          return 'Please enter a valid mathematical calculation.';
-        }
-        
-        // Use Function constructor for safe evaluation
-        const result = Function(`"use strict"; return (${sanitized})`)();
-        
-        if (typeof result === 'number' && !isNaN(result)) {
-          return `Result: ${result}`;
-        } else {
-          return 'Invalid calculation.';
-        }
-      } catch (error) {
-        return 'Error in calculation. Please check your input.';
+    definition: defineTool({
+      name: 'calculate',
+      description: 'Evaluates an arithmetic expression. Supports + - * / ^, parentheses, percentages (200 + 10%), '
+        + 'functions such as sqrt, log, ln, sin, cos, tan, round, min, max and mod (remainder), and the constants pi and e',
+      parameters: {
+        type: 'object',
+        properties: {
+          expression: { type: 'string', description: 'Arithmetic expression, e.g. (2 + 3) * 4 or sqrt(2) ^ 2', minLength: 1 }
+        },
+        required: ['expression']
+      },
+      handler: ({ expression }) => {
+        const result = evaluateExpression(expression);
+        return { expression, result };
       }
-    }
+    })
   },
   {
     id: 'random_fact_tool',
@@ -69,24 +106,94 @@ const availableTools: Tool[] = [
     description: 'Generates an interesting random fact',
     icon: faLightbulb,
     color: 'bg-purple-500',
-    handler: () => {
-      const facts = [
-        'Honey never spoils. Archaeologists have found 3000-year-old honey that was still edible.',
-        'An octopus has three hearts and blue blood.',
-        'Bananas are botanically berries, but strawberries are not.',
-        'A day on Venus is longer than a year on Venus.',
-        'Flamingos are only pink because they eat shrimp.',
-        'Lightning is five times hotter than the surface of the sun.',
-        'Dolphins have names for each other - they use unique whistle sounds.',
-        'A teaspoon of neutron star would weigh about 6 billion tons.'
-      ];
-      
-      const randomFact = facts[Math.floor(Math.random() * facts.length)];
-      return `🎯 Interesting fact: ${randomFact}`;
-    }
+    definition: defineTool({
+      name: 'get_random_fact',
+      description: 'Returns an interesting random fact',
+      parameters: { type: 'object', properties: {} },
+      handler: () => {
+        const facts = [
+          'Honey never spoils. Archaeologists have found 3000-year-old honey that was still edible.',
+          'An octopus has three hearts and blue blood.',
+          'Bananas are botanically berries, but strawberries are not.',
+          'A day on Venus is longer than a year on Venus.',
+          'Flamingos are only pink because they eat shrimp.',
+          'Lightning is five times hotter than the surface of the sun.',
+          'Dolphins have names for each other - they use unique whistle sounds.',
+          'A teaspoon of neutron star would weigh about 6 billion tons.'
+        ];
+        
+        const randomFact = facts[Math.floor(Math.random() * facts.length)];
+        return `🎯 Interesting fact: ${randomFact}`;
+      }
+    })
+  },
+  {
+    id: 'unit_conversion_tool',
+    name: 'Unit Converter',
+    description: 'Converts length, mass, volume, temperature and more',
+    icon: faRulerCombined,
+    color: 'bg-orange-500',
+    definition: convertUnitsTool
+  },
+  {
+    id: 'date_arithmetic_tool',
+    name: 'Date Calculator',
+    description: 'Adds days, weeks or months to a date in any time zone',
+    icon: faCalendarAlt,
+    color: 'bg-pink-500',
+    definition: dateArithmeticTool
+  },
+  {
+    id: 'text_statistics_tool',
+    name: 'Text Statistics',
+    description: 'Counts words and sentences and estimates reading time',
+    icon: faAlignLeft,
+    color: 'bg-teal-500',
+    definition: textStatisticsTool
+  },
+  {
+    id: 'json_query_tool',
+    name: 'JSON Query',
+    description: 'Extracts values from JSON with a JSONPath expression',
+    icon: faSitemap,
+    color: 'bg-indigo-500',
+    definition: jsonQueryTool
+  },
+  {
+    id: 'notes_lookup_tool',
+    name: 'Notes Lookup',
+    description: 'Searches your local notes',
+    icon: faStickyNote,
+    color: 'bg-amber-500',
+    definition: notesLookupTool
+  },
+  {
+    id: 'http_fetch_tool',
+    name: 'HTTP Fetch',
+    description: 'Calls allowlisted internal APIs',
+    icon: faGlobe,
+    color: 'bg-cyan-500',
+    definition: httpFetchTool
   }
 ];
 
+// A user tool under one of these would replace the built-in for the model
+const builtInToolNames = [
+  ...availableTools.flatMap(tool => [tool.id, tool.definition.name]),
+  MEMORY_TOOL_ID,
+  memoryTool.name
+];
+
+const userToolEntry = (spec: UserToolSpec): Tool => ({
+  id: spec.id,
+  name: spec.name,
+  description: spec.description,
+  icon: faCode,
+  color: 'bg-slate-500',
+  definition: userToolDefinition(spec),
+  userTool: spec
+});
+
 const ToolManager: React.FC<ToolManagerProps> = ({
   onToolsRegistered,
   selectedTools,
@@ -94,36 +201,60 @@ const ToolManager: React.FC<ToolManagerProps> = ({
 }) => {
   const [registeredTools, setRegisteredTools] = useState<string[]>([]);
   const [isRegistering, setIsRegistering] = useState(false);
+  const [userTools, setUserTools] = useState<UserToolSpec[]>(() => userToolStore.list());
+  const [showCreateForm, setShowCreateForm] = useState(false);
+
+  const tools = [...availableTools, ...userTools.map(userToolEntry)];
 
   useEffect(() => {
     registerSelectedTools();
   }, [selectedTools]);
 
+  // Each tool is handled on its own, so one failure does not leave the rest unregistered
   const registerSelectedTools = async () => {
-    if (selectedTools.length === 0) {
-      setRegisteredTools([]);
-      onToolsRegistered([]);
-      return;
-    }
-
     setIsRegistering(true);
     try {
       const newRegisteredTools: string[] = [];
-      
+
+      // Deselected tools are removed so the model can no longer call them
+      for (const toolId of registeredTools.filter(id => !selectedTools.includes(id))) {
+        try {
+          await unregisterTool(toolId);
+        } catch (error) {
+          // Still registered, so the next pass tries again
+          console.error('Failed to unregister tool:', toolId, error);
+          newRegisteredTools.push(toolId);
+        }
+      }
+
       for (const toolId of selectedTools) {
-        const tool = availableTools.find(t => t.id === toolId);
-        if (tool) {
-          // Register the tool in Foundation Models Service
-          await registerCustomTool(tool.id, tool.name, tool.description, tool.handler);
-          
+        const tool = tools.find(t => t.id === toolId);
+        if (!tool) continue;
+
+        // Created before built-in names were checked
+        if (tool.userTool && isReservedToolName(tool.userTool.name, builtInToolNames)) {
+          console.warn('Not registering user tool that shadows a built-in tool:', tool.userTool.name);
+          continue;
+        }
+
+        try {
+          // Register the tool and its argument schema in Foundation Models Service
+          if (!registeredTools.includes(tool.id)) {
+            if (tool.userTool) {
+              await registerUserTool(tool.userTool);
+            } else {
+              await registerDefinedTool(tool.definition, tool.id);
+            }
+          }
           newRegisteredTools.push(tool.id);
+        } catch (error) {
+          console.error('Failed to register tool:', tool.id, error);
         }
       }
-      
+
       setRegisteredTools(newRegisteredTools);
-      onToolsRegistered(newRegisteredTools);
-    } catch (error) {
-      console.error('Failed to register tools:', error);
+      // Tools that failed to unregister are not selected, so requests do not offer them
+      onToolsRegistered(newRegisteredTools.filter(id => selectedTools.includes(id)));
     } finally {
       setIsRegistering(false);
     }
@@ -137,19 +268,53 @@ const ToolManager: React.FC<ToolManagerProps> = ({
     onToolSelectionChange(newSelection);
   };
 
+  const handleToolCreated = (spec: UserToolSpec) => {
+    setUserTools(userToolStore.list());
+    setShowCreateForm(false);
+    onToolSelectionChange([...selectedTools, spec.id]);
+  };
+
+  // Deselecting unregisters the tool through the selection effect
+  const deleteUserTool = (spec: UserToolSpec) => {
+    if (!confirm(`Delete the tool ${spec.name}?`)) return;
+    userToolStore.delete(spec.id);
+    setUserTools(userToolStore.list());
+    onToolSelectionChange(selectedTools.filter(id => id !== spec.id));
+  };
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
-        <h3 className="text-sm font-medium text-white">Select Tools ({availableTools.length} available)</h3>
-        {isRegistering && (
-          <div className="text-xs text-white/60">Registering...</div>
-        )}
+        <h3 className="text-sm font-medium text-white">Select Tools ({tools.length} available)</h3>
+        <div className="flex items-center space-x-3">
+          {isRegistering && (
+            <div className="text-xs text-white/60">Registering...</div>
+          )}
+          {!showCreateForm && (
+            <button
+              onClick={() => setShowCreateForm(true)}
+              className="text-xs text-purple-300 hover:text-purple-200"
+            >
+              <FontAwesomeIcon icon={faPlus} className="mr-1" />
+              Create tool
+            </button>
+          )}
+        </div>
       </div>
+
+      {showCreateForm && (
+        <CreateToolForm
+          reservedNames={builtInToolNames}
+          onCreated={handleToolCreated}
+          onCancel={() => setShowCreateForm(false)}
+        />
+      )}
       
       <div className="space-y-2">
-        {availableTools.map((tool) => {
+        {tools.map((tool) => {
           const isSelected = selectedTools.includes(tool.id);
           const isRegistered = registeredTools.includes(tool.id);
+          const { userTool } = tool;
           
           return (
             <motion.div
@@ -174,6 +339,18 @@ const ToolManager: React.FC<ToolManagerProps> = ({
               </div>
               
               <div className="flex items-center space-x-2">
+                {userTool && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteUserTool(userTool);
+                    }}
+                    className="text-white/40 hover:text-red-400 text-xs"
+                    title="Delete tool"
+                  >
+                    <FontAwesomeIcon icon={faTrash} />
+                  </button>
+                )}
                 <div className={`w-4 h-4 rounded border-2 flex items-center justify-center ${
                   isSelected 
                     ? 'bg-purple-500 border-purple-500' 
@@ -194,7 +371,7 @@ const ToolManager: React.FC<ToolManagerProps> = ({
       
       {selectedTools.length > 0 && (
         <div className="text-xs text-white/60 text-center">
-          {selectedTools.length} of {availableTools.length} tools selected
+          {selectedTools.length} of {tools.length} tools selected
         </div>
       )}
     </div>
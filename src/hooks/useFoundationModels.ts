@@ -1,8 +1,10 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import {
-  generateStreaming,
+  CancelledError,
+  stream,
   registerTool as registerToolNative,
-  removeAllListeners,
+  unregisterTool,
+  type FoundationModelsError,
 } from '../services/foundation.models.service';
 
 /**
@@ -10,25 +12,41 @@ import {
  */
 export function useStreamingText() {
   const [text, setText] = useState('');
-  const streamIdRef = useRef<string | null>(null);
+  const [error, setError] = useState<FoundationModelsError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   const start = useCallback(async (prompt: string) => {
+    // Laufenden Stream abbrechen, bevor ein neuer startet
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
     setText('');
-    await removeAllListeners();
+    setError(null);
 
-    const id = await generateStreaming(prompt, (chunk: string) => {
-      if (chunk === '[STREAM_COMPLETE]') return;
-      setText((prev) => prev + chunk);
-    });
-    streamIdRef.current = id;
+    for await (const event of stream(prompt, { signal: controller.signal })) {
+      switch (event.type) {
+        case 'delta':
+          setText((prev) => prev + event.text);
+          break;
+        case 'snapshot':
+        case 'done':
+          setText(event.text);
+          break;
+        case 'error':
+          if (!(event.error instanceof CancelledError)) setError(event.error);
+          break;
+      }
+    }
   }, []);
 
   const reset = useCallback(() => {
+    abortRef.current?.abort();
+    abortRef.current = null;
     setText('');
-    streamIdRef.current = null;
+    setError(null);
   }, []);
 
-  return { text, start, reset };
+  return { text, error, start, reset };
 }
 
 /**
@@ -40,11 +58,26 @@ export function useRegisterTool(
   handler: (payload: string) => Promise<string> | string,
 ) {
   useEffect(() => {
-    registerToolNative(name, description, handler).catch(console.error);
+    let toolId: string | undefined;
+    let disposed = false;
+
+    registerToolNative(name, description, handler)
+      .then((id) => {
+        // Bereits unmounted, bevor die Registrierung fertig war
+        if (disposed) {
+          unregisterTool(id).catch(console.error);
+        } else {
+          toolId = id;
+        }
+      })
+      .catch(console.error);
+
     return () => {
-      // Beim Unmount Handler entfernen
-      // (aktuelles Native-Interface bietet kein unregister – wir löschen lokal)
-      // eslint-disable-next-line @typescript-eslint/no-empty-function
+      // Beim Unmount Tool nativ und lokal entfernen
+      disposed = true;
+      if (toolId) {
+        unregisterTool(toolId).catch(console.error);
+      }
     };
   }, [name, description, handler]);
 } 
\ No newline at end of file
@@ -1,6 +1,32 @@
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import ChatApp from './ChatApp.tsx'
+import { configureProviders, nativeProvider } from './services/foundation.models.service'
+import { OpenAICompatibleProvider } from './services/openai.compatible.provider'
+import { configureHttpFetch, parseHttpAllowlist } from './services/http.fetch.tool'
+
+// Fall back to an OpenAI-compatible server when Apple Intelligence can't be used. VITE_ variables
+// are compiled into the bundle, so this takes no API key: use a keyless local server, or a proxy
+// that adds the key on the server side
+if (import.meta.env.VITE_FALLBACK_MODEL_URL) {
+  configureProviders({
+    primary: { name: 'native', provider: nativeProvider },
+    fallback: {
+      name: 'http',
+      provider: new OpenAICompatibleProvider({
+        baseUrl: import.meta.env.VITE_FALLBACK_MODEL_URL,
+        model: import.meta.env.VITE_FALLBACK_MODEL ?? 'llama3.2'
+      })
+    }
+  }).catch(console.error)
+}
+
+// Hosts the http_fetch tool may call, e.g. api.internal.example.com=GET,POST;localhost:8787=GET.
+// For the same reason as above there is no token variable: pass credentials obtained at runtime
+// through `variables`, or have a proxy add them
+if (import.meta.env.VITE_HTTP_FETCH_ALLOW) {
+  configureHttpFetch({ allow: parseHttpAllowlist(import.meta.env.VITE_HTTP_FETCH_ALLOW) })
+}
 
 createRoot(document.getElementById('root')!).render(
   <ChatApp />
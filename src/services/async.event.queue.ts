@@ -0,0 +1,63 @@
+/**
+ * Push-based queue exposed as an async iterable, used to turn listener callbacks
+ * into `for await` loops. `onReturn` runs when the consumer stops iterating early.
+ */
+export class AsyncEventQueue<T> implements AsyncIterable<T> {
+  private items: T[] = [];
+  private waiting: ((result: IteratorResult<T>) => void)[] = [];
+  private closed = false;
+  private readonly onReturn?: () => void;
+
+  constructor(onReturn?: () => void) {
+    this.onReturn = onReturn;
+  }
+
+  get isClosed(): boolean {
+    return this.closed;
+  }
+
+  push(item: T): void {
+    if (this.closed) return;
+
+    const next = this.waiting.shift();
+    if (next) {
+      next({ value: item, done: false });
+    } else {
+      this.items.push(item);
+    }
+  }
+
+  // Buffered items are still delivered before iteration ends
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+
+    for (const next of this.waiting) {
+      next({ value: undefined, done: true });
+    }
+    this.waiting = [];
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<T> {
+    return {
+      next: () => {
+        if (this.items.length > 0) {
+          return Promise.resolve({ value: this.items.shift() as T, done: false });
+        }
+        if (this.closed) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => this.waiting.push(resolve));
+      },
+      return: async () => {
+        const wasClosed = this.closed;
+        this.items = [];
+        this.close();
+        if (!wasClosed) {
+          this.onReturn?.();
+        }
+        return { value: undefined, done: true };
+      }
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertUnitsTool, dateArithmeticTool, jsonQueryTool, textStatisticsTool } from './builtin.tools';
+import { createToolHandler, parseToolError, type AnyToolDefinition } from './tool.definition';
+
+// Runs a tool the way the bridge does: JSON arguments in, serialized output out
+const call = async (tool: AnyToolDefinition, args: unknown) => String(
+  await createToolHandler(tool)(JSON.stringify(args), { callId: 'test', signal: new AbortController().signal, log: () => {} })
+);
+
+describe('built-in tools', () => {
+  it('convert_units returns the conversion', async () => {
+    const output = await call(convertUnitsTool, { value: 5, from: 'km', to: 'miles' });
+    expect(JSON.parse(output)).toMatchObject({ from: 'km', to: 'mi', result: 3.10685596119, dimension: 'length' });
+  });
+
+  it('convert_units reports unknown units as a handler error', async () => {
+    const output = await call(convertUnitsTool, { value: 5, from: 'km', to: 'leagues' });
+    expect(parseToolError(output)).toMatchObject({ code: 'handlerFailed', message: "Unknown unit 'leagues'" });
+  });
+
+  it('date_arithmetic rejects units outside its schema before the handler runs', async () => {
+    const output = await call(dateArithmeticTool, { start: 'today', amount: 1, unit: 'fortnights' });
+    expect(parseToolError(output)?.code).toBe('invalidArguments');
+  });
+
+  it('date_arithmetic adds to an ISO date', async () => {
+    const output = await call(dateArithmeticTool, { start: '2026-03-14', amount: 2, unit: 'days', timeZone: 'UTC' });
+    expect(JSON.parse(output)).toMatchObject({ date: '2026-03-16', weekday: 'Monday' });
+  });
+
+  it('text_statistics counts words, sentences and paragraphs', async () => {
+    const text = 'The kettle whistled. The kettle was ready!\n\nTea steeped while the kettle cooled.';
+    const stats = JSON.parse(await call(textStatisticsTool, { text }));
+    expect(stats).toMatchObject({ words: 13, sentences: 3, paragraphs: 2, readingTimeMinutes: 1 });
+    expect(stats.topWords[0]).toEqual({ word: 'kettle', count: 3 });
+  });
+
+  it('json_query returns the matches of a path', async () => {
+    const document = JSON.stringify({ items: [{ price: 2 }, { price: 3 }] });
+    const result = JSON.parse(await call(jsonQueryTool, { document, path: '$.items[*].price' }));
+    expect(result).toEqual({
+      path: '$.items[*].price',
+      count: 2,
+      matches: [{ path: '$.items[0].price', value: 2 }, { path: '$.items[1].price', value: 3 }]
+    });
+  });
+
+  it('json_query reports documents that are not JSON', async () => {
+    const output = await call(jsonQueryTool, { document: '{items: 1}', path: '$.items' });
+    expect(parseToolError(output)?.message).toMatch(/^The document is not valid JSON/);
+  });
+});
@@ -0,0 +1,191 @@
+import { addToCalendarDate } from './date.arithmetic';
+import { registerCustomTool } from './foundation.models.service';
+import { queryJsonPath } from './json.path';
+import { memoryStore } from './memory.store';
+import { notesStore } from './notes.store';
+import { createToolHandler, defineTool, type AnyToolDefinition } from './tool.definition';
+import { convertUnits, listUnits } from './unit.conversion';
+
+// MARK: - Unit conversion
+export const convertUnitsTool = defineTool({
+  name: 'convert_units',
+  description: 'Converts a value between units of length, mass, volume, area, speed, time, data size or temperature. '
+    + `Known units: ${listUnits().join(', ')}`,
+  parameters: {
+    type: 'object',
+    properties: {
+      value: { type: 'number', description: 'Value to convert' },
+      from: { type: 'string', description: 'Unit of the value, e.g. km, lb, °F or gallon. Data units are case-sensitive: MB is megabytes, Mb megabits', minLength: 1 },
+      to: { type: 'string', description: 'Unit to convert to', minLength: 1 }
+    },
+    required: ['value', 'from', 'to']
+  },
+  handler: ({ value, from, to }) => convertUnits(value, from, to)
+});
+
+// MARK: - Date arithmetic
+export const dateArithmeticTool = defineTool({
+  name: 'date_arithmetic',
+  description: 'Adds or subtracts minutes, hours, days, weeks, months or years from a date in a time zone, '
+    + 'e.g. "3 weeks from Friday" is start "friday", amount 3, unit "weeks"',
+  parameters: {
+    type: 'object',
+    properties: {
+      start: {
+        type: 'string',
+        description: 'today, now, tomorrow, yesterday, a weekday name such as friday or next friday, '
+          + 'or an ISO date such as 2026-03-14 or 2026-03-14T09:30'
+      },
+      amount: { type: 'integer', description: 'How many units to add; negative to go back' },
+      unit: { type: 'string', enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] },
+      timeZone: { type: 'string', description: 'IANA time zone such as Europe/Berlin; the device zone when omitted' }
+    },
+    required: ['start', 'amount', 'unit']
+  },
+  handler: ({ start, amount, unit, timeZone }) => addToCalendarDate(start, amount, unit, timeZone)
+});
+
+// MARK: - Text statistics
+const WORDS_PER_MINUTE = 200;
+
+export const textStatisticsTool = defineTool({
+  name: 'text_statistics',
+  description: 'Counts characters, words, sentences and paragraphs of a text and estimates its reading time',
+  parameters: {
+    type: 'object',
+    properties: {
+      text: { type: 'string', description: 'The text to analyze' }
+    },
+    required: ['text']
+  },
+  handler: ({ text }) => {
+    const words = text.match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) ?? [];
+    const frequencies = new Map<string, number>();
+    for (const word of words) {
+      const key = word.toLowerCase();
+      // Short words are mostly articles and prepositions
+      if (key.length > 3) frequencies.set(key, (frequencies.get(key) ?? 0) + 1);
+    }
+
+    return {
+      characters: text.length,
+      charactersWithoutSpaces: text.replace(/\s/g, '').length,
+      words: words.length,
+      sentences: text.split(/[.!?]+(?:\s|$)/).filter(sentence => sentence.trim()).length,
+      paragraphs: text.split(/\n\s*\n/).filter(paragraph => paragraph.trim()).length,
+      averageWordLength: words.length
+        ? Math.round(words.reduce((sum, word) => sum + word.length, 0) / words.length * 10) / 10
+        : 0,
+      readingTimeMinutes: Math.ceil(words.length / WORDS_PER_MINUTE),
+      topWords: Array.from(frequencies, ([word, count]) => ({ word, count }))
+        .sort((a, b) => b.count - a.count)
+        .slice(0, 5)
+    };
+  }
+});
+
+// MARK: - JSON query
+export const jsonQueryTool = defineTool({
+  name: 'json_query',
+  description: 'Extracts values from a JSON document with a JSONPath expression such as $.items[0].name, '
+    + '$.items[*].price or $..id',
+  parameters: {
+    type: 'object',
+    properties: {
+      document: { type: 'string', description: 'The JSON document as a string' },
+      path: { type: 'string', description: 'JSONPath expression starting with $', minLength: 1 }
+    },
+    required: ['document', 'path']
+  },
+  handler: ({ document, path }) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(document);
+    } catch (error) {
+      throw new Error(`The document is not valid JSON: ${(error as Error).message}`);
+    }
+    const matches = queryJsonPath(parsed, path);
+    return { path, count: matches.length, matches };
+  }
+});
+
+// MARK: - Notes lookup
+export const notesLookupTool = defineTool({
+  name: 'search_notes',
+  description: "Searches the user's local notes and returns the best matches with an excerpt",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'Words to look for', minLength: 1 },
+      limit: { type: 'integer', description: 'Maximum number of notes to return', minimum: 1, maximum: 20 }
+    },
+    required: ['query']
+  },
+  handler: ({ query, limit }) => {
+    const matches = notesStore.search(query, limit);
+    if (matches.length === 0) return `No notes match "${query}".`;
+
+    return matches.map(({ note, snippet }) => ({
+      title: note.title,
+      tags: note.tags,
+      excerpt: snippet,
+      updatedAt: new Date(note.updatedAt).toISOString()
+    }));
+  }
+});
+
+// MARK: - Memory
+export const MEMORY_TOOL_ID = 'memory_tool';
+
+export const memoryTool = defineTool({
+  name: 'memory',
+  description: 'Long-term memory about the user that persists across conversations. '
+    + 'Arguments are JSON: {"action": "remember", "key": "...", "value": "..."} stores a fact, '
+    + '{"action": "recall", "query": "..."} looks facts up and {"action": "forget", "key": "..."} deletes one. '
+    + 'Recall before answering questions about the user; remember stable preferences and personal details they share.',
+  parameters: {
+    type: 'object',
+    properties: {
+      action: { type: 'string', enum: ['remember', 'recall', 'forget'] },
+      key: { type: 'string', description: 'Short name of the fact, e.g. favorite color', minLength: 1, maxLength: 100 },
+      value: { type: 'string', description: 'The fact to store', minLength: 1, maxLength: 1000 },
+      query: { type: 'string', description: 'Words to look for; all recent facts when empty' }
+    },
+    required: ['action']
+  },
+  handler: ({ action, key, value, query }) => {
+    switch (action) {
+      case 'remember': {
+        if (!key || !value) throw new Error('remember needs a key and a value');
+        const fact = memoryStore.remember(key, value);
+        return `Remembered ${fact.key}: ${fact.value}`;
+      }
+      case 'recall': {
+        const facts = memoryStore.recall(query ?? '');
+        if (facts.length === 0) return 'Nothing is remembered about that.';
+        return facts.map(fact => ({ key: fact.key, value: fact.value }));
+      }
+      case 'forget':
+        if (!key) throw new Error('forget needs a key');
+        return memoryStore.forget(key) ? `Forgot ${key}.` : `Nothing was remembered under ${key}.`;
+    }
+  }
+});
+
+// Registers the memory tool through the raw-payload bridge, validating arguments against its schema
+export const registerMemoryTool = () => registerCustomTool(
+  MEMORY_TOOL_ID,
+  memoryTool.name,
+  memoryTool.description,
+  createToolHandler(memoryTool),
+  { parameters: memoryTool.parameters }
+);
+
+// Offline tools that ship with the app, ready for `registerDefinedTool`
+export const builtinTools: AnyToolDefinition[] = [
+  convertUnitsTool,
+  dateArithmeticTool,
+  textStatisticsTool,
+  jsonQueryTool,
+  notesLookupTool
+];
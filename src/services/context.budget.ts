@@ -0,0 +1,125 @@
+import { promptLibrary } from './prompt.library';
+import type { TranscriptEntry } from './session.transcript';
+
+// MARK: - Type definitions
+export interface ContextBudgetPolicy {
+  // Context window of the model in tokens; the on-device model accepts 4096
+  maxTokens: number;
+  // Fraction of `maxTokens` above which the session is compacted before the next turn
+  compactAt: number;
+  // Most recent turns carried over verbatim into the compacted session
+  retainTurns: number;
+  autoCompact: boolean;
+}
+
+export interface ContextBudget {
+  sessionId: string;
+  usedTokens: number;
+  maxTokens: number;
+  // usedTokens / maxTokens, may exceed 1
+  ratio: number;
+}
+
+// What the native session currently holds: instructions, the latest summary and the turns since
+export interface SessionContext {
+  instructions?: string;
+  summary?: string;
+  history: TranscriptEntry[];
+}
+
+export const defaultContextBudgetPolicy: ContextBudgetPolicy = {
+  maxTokens: 4096,
+  compactAt: 0.75,
+  retainTurns: 2,
+  autoCompact: true
+};
+
+// Per-entry overhead for role markers and turn separators
+const ENTRY_OVERHEAD_TOKENS = 4;
+
+// MARK: - Estimation
+/**
+ * Rough token count without a tokenizer: about four characters per token for English,
+ * but never fewer tokens than words so short CJK or symbol-heavy text is not undercounted.
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const words = text.trim().split(/\s+/).filter(Boolean).length;
+  return Math.max(words, Math.ceil(text.length / 4));
+}
+
+const entryText = (entry: TranscriptEntry): string => {
+  switch (entry.type) {
+    case 'toolCall':
+      return entry.arguments;
+    case 'toolOutput':
+      return entry.output;
+    case 'compaction':
+      return entry.summary;
+    default:
+      return entry.text;
+  }
+};
+
+export function estimateContextTokens(context: SessionContext): number {
+  let tokens = estimateTokens(composeInstructions(context) ?? '');
+  for (const entry of context.history) {
+    tokens += estimateTokens(entryText(entry)) + ENTRY_OVERHEAD_TOKENS;
+  }
+  return tokens;
+}
+
+// MARK: - Session context
+/**
+ * Reduces a full transcript to what the native session holds. Turns before the latest
+ * compaction are replaced by its summary, except the turns it retained verbatim.
+ */
+export function sessionContext(transcript: TranscriptEntry[]): SessionContext {
+  const instructions = transcript.find(entry => entry.type === 'instructions')?.text;
+
+  let compactionIndex = -1;
+  for (let index = transcript.length - 1; index >= 0; index--) {
+    if (transcript[index].type === 'compaction') {
+      compactionIndex = index;
+      break;
+    }
+  }
+  const compaction = transcript[compactionIndex];
+  if (compaction?.type !== 'compaction') {
+    return { instructions, history: transcript.filter(entry => entry.type !== 'instructions') };
+  }
+
+  // Walk back from the compaction to the first prompt of the retained turns
+  let retainedStart = compactionIndex;
+  let prompts = 0;
+  for (let index = compactionIndex - 1; index >= 0 && prompts < compaction.retainedTurns; index--) {
+    if (transcript[index].type === 'prompt') {
+      prompts++;
+      retainedStart = index;
+    }
+  }
+
+  const history = [
+    ...transcript.slice(retainedStart, compactionIndex),
+    ...transcript.slice(compactionIndex + 1)
+  ].filter(entry => entry.type !== 'instructions');
+  return { instructions, summary: compaction.summary, history };
+}
+
+// Instructions for a session seeded from `context`, with the summary appended
+export function composeInstructions(context: SessionContext): string | undefined {
+  if (!context.summary) return context.instructions;
+
+  const summary = `Summary of the conversation so far:\n${context.summary}`;
+  return context.instructions ? `${context.instructions}\n\n${summary}` : summary;
+}
+
+// Prompt for `generateSummary` from the `conversation.compaction` template, covering the previous summary and the given turns
+export function compactionPrompt(summary: string | undefined, history: TranscriptEntry[]): string {
+  const lines: string[] = [];
+  for (const entry of history) {
+    if (entry.type === 'prompt') lines.push(`User: ${entry.text}`);
+    if (entry.type === 'response') lines.push(`Assistant: ${entry.text}`);
+  }
+  return promptLibrary.render('conversation.compaction', { summary, transcript: lines.join('\n') });
+}
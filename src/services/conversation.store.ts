@@ -0,0 +1,84 @@
+import type { TranscriptEntry } from './session.transcript';
+
+// MARK: - Type definitions
+export interface SavedMessage {
+  id: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  // Epoch milliseconds; Date objects are not kept as-is
+  timestamp: number;
+  scenario?: string;
+  metadata?: unknown;
+}
+
+export interface SavedConversation {
+  id: string;
+  scenario: string;
+  messages: SavedMessage[];
+  // Transcript of the conversation session, used to restore it with `restoreConversationSession`
+  transcript?: TranscriptEntry[];
+  updatedAt: number;
+}
+
+const DATABASE_NAME = 'foundation-models';
+const DATABASE_VERSION = 1;
+const STORE_NAME = 'conversations';
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// MARK: - Conversation store
+/**
+ * IndexedDB persistence for chats, so conversations survive the app being killed.
+ * The database is opened lazily on first use.
+ */
+export class ConversationStore {
+  private database?: Promise<IDBDatabase>;
+
+  async save(conversation: SavedConversation): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await toPromise(store.put(conversation));
+  }
+
+  async load(id: string): Promise<SavedConversation | undefined> {
+    const store = await this.objectStore('readonly');
+    return toPromise<SavedConversation | undefined>(store.get(id));
+  }
+
+  // Most recently updated first
+  async list(): Promise<SavedConversation[]> {
+    const store = await this.objectStore('readonly');
+    const conversations = await toPromise<SavedConversation[]>(store.getAll());
+    return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async delete(id: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await toPromise(store.delete(id));
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry after a failed open
+    this.database.catch(() => {
+      this.database = undefined;
+    });
+    return this.database;
+  }
+}
+
+export const conversationStore = new ConversationStore();
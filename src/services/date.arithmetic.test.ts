@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { addToCalendarDate } from './date.arithmetic';
+
+describe('addToCalendarDate', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Friday, March 13, 2026, 23:30 in UTC, already Saturday in Berlin
+    vi.setSystemTime(new Date('2026-03-13T23:30:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('counts from today in the requested time zone', () => {
+    expect(addToCalendarDate('today', 1, 'days', 'UTC')).toMatchObject({ date: '2026-03-14', weekday: 'Saturday' });
+    expect(addToCalendarDate('today', 1, 'days', 'Europe/Berlin')).toMatchObject({ date: '2026-03-15', weekday: 'Sunday' });
+  });
+
+  it('resolves weekday names to their next occurrence, today included', () => {
+    expect(addToCalendarDate('friday', 3, 'weeks', 'UTC')).toMatchObject({ date: '2026-04-03', weekday: 'Friday' });
+    expect(addToCalendarDate('next friday', 0, 'days', 'UTC').date).toBe('2026-03-20');
+    expect(addToCalendarDate('monday', 0, 'days', 'UTC').date).toBe('2026-03-16');
+  });
+
+  it('keeps the weekday across a DST change', () => {
+    // Clocks in Berlin go forward on March 29, 2026
+    const result = addToCalendarDate('2026-03-27T09:30', 1, 'weeks', 'Europe/Berlin');
+    expect(result.date).toBe('2026-04-03');
+    expect(result.result).toBe('Friday, April 3, 2026 at 9:30 AM');
+  });
+
+  it('clamps month arithmetic to the end of shorter months', () => {
+    expect(addToCalendarDate('2026-01-31', 1, 'months', 'UTC').date).toBe('2026-02-28');
+    expect(addToCalendarDate('2028-01-31', 1, 'months', 'UTC').date).toBe('2028-02-29');
+    expect(addToCalendarDate('2028-02-29', 1, 'years', 'UTC').date).toBe('2029-02-28');
+  });
+
+  it('goes back with negative amounts', () => {
+    expect(addToCalendarDate('yesterday', -2, 'days', 'UTC').date).toBe('2026-03-10');
+    expect(addToCalendarDate('2026-03-01', -1, 'months', 'UTC').date).toBe('2026-02-01');
+  });
+
+  it('includes the time for hour and minute arithmetic', () => {
+    const result = addToCalendarDate('now', 90, 'minutes', 'UTC');
+    expect(result.start).toBe('Friday, March 13, 2026 at 11:30 PM');
+    expect(result.result).toBe('Saturday, March 14, 2026 at 1:00 AM');
+  });
+
+  it('rejects unknown time zones and unreadable dates', () => {
+    expect(() => addToCalendarDate('today', 1, 'days', 'Mars/Olympus')).toThrow("Unknown time zone 'Mars/Olympus'");
+    expect(() => addToCalendarDate('2026-02-30', 1, 'days', 'UTC')).toThrow("'2026-02-30' is not a valid calendar date");
+    expect(() => addToCalendarDate('someday', 1, 'days', 'UTC')).toThrow("Cannot read start 'someday'");
+  });
+});
@@ -0,0 +1,148 @@
+// MARK: - Type definitions
+export type DateUnit = 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+
+export interface DateArithmeticResult {
+  timeZone: string;
+  start: string;
+  result: string;
+  // Calendar date of the result in the time zone, YYYY-MM-DD
+  date: string;
+  weekday: string;
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// MARK: - Wall-clock time
+/**
+ * Dates are handled as wall-clock time in the requested zone, stored in a Date's UTC
+ * fields. Calendar arithmetic then never shifts across DST changes: 3 weeks from a
+ * Friday is always a Friday, at the same local time.
+ */
+function wallClockNow(timeZone: string): Date {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(new Date());
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+
+  return new Date(Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute')));
+}
+
+const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+  } catch {
+    throw new Error(`Unknown time zone '${timeZone}'; use an IANA name such as Europe/Berlin`);
+  }
+}
+
+/**
+ * Resolves `today`, `now`, `tomorrow`, `yesterday`, a weekday name (its next occurrence,
+ * today included, optionally prefixed with `next`) or an ISO date like 2026-03-14 or
+ * 2026-03-14T09:30.
+ */
+function resolveStart(start: string, timeZone: string): { date: Date; hasTime: boolean } {
+  const now = wallClockNow(timeZone);
+  const today = startOfDay(now);
+  const name = start.trim().toLowerCase();
+
+  if (name === 'now') return { date: now, hasTime: true };
+  if (name === '' || name === 'today') return { date: today, hasTime: false };
+  if (name === 'tomorrow' || name === 'yesterday') {
+    return { date: addToDate(today, name === 'tomorrow' ? 1 : -1, 'days'), hasTime: false };
+  }
+
+  const weekdayMatch = /^(next\s+)?(\w+)$/.exec(name);
+  const weekday = weekdayMatch ? WEEKDAYS.indexOf(weekdayMatch[2]) : -1;
+  if (weekday >= 0) {
+    let days = (weekday - today.getUTCDay() + 7) % 7;
+    // "next Friday" said on a Friday means a week later
+    if (days === 0 && weekdayMatch?.[1]) days = 7;
+    return { date: addToDate(today, days, 'days'), hasTime: false };
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})(?:[t\s](\d{2}):(\d{2}))?$/.exec(name);
+  if (iso) {
+    const [, year, month, day, hour, minute] = iso.map(Number);
+    const date = new Date(Date.UTC(year, month - 1, day, hour || 0, minute || 0));
+    if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      throw new Error(`'${start}' is not a valid calendar date`);
+    }
+    return { date, hasTime: iso[4] !== undefined };
+  }
+
+  throw new Error(`Cannot read start '${start}'; use today, now, a weekday name or an ISO date such as 2026-03-14`);
+}
+
+// MARK: - Arithmetic
+function addToDate(date: Date, amount: number, unit: DateUnit): Date {
+  const result = new Date(date.getTime());
+  switch (unit) {
+    case 'minutes':
+      result.setUTCMinutes(result.getUTCMinutes() + amount);
+      break;
+    case 'hours':
+      result.setUTCHours(result.getUTCHours() + amount);
+      break;
+    case 'days':
+      result.setUTCDate(result.getUTCDate() + amount);
+      break;
+    case 'weeks':
+      result.setUTCDate(result.getUTCDate() + amount * 7);
+      break;
+    case 'months':
+    case 'years': {
+      const months = unit === 'years' ? amount * 12 : amount;
+      const day = result.getUTCDate();
+      result.setUTCDate(1);
+      result.setUTCMonth(result.getUTCMonth() + months);
+      // Clamp to the last day of a shorter month: January 31 + 1 month is February 28 or 29
+      const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+      result.setUTCDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+  return result;
+}
+
+const formatDate = (date: Date, withTime: boolean): string => date.toLocaleString('en-US', {
+  timeZone: 'UTC',
+  weekday: 'long',
+  year: 'numeric',
+  month: 'long',
+  day: 'numeric',
+  ...(withTime ? { hour: 'numeric', minute: '2-digit' } : {})
+});
+
+/**
+ * Adds `amount` units (negative to go back) to `start` in `timeZone`, which defaults to
+ * the device's zone. Throws for unknown zones and unreadable start dates.
+ */
+export function addToCalendarDate(
+  start: string,
+  amount: number,
+  unit: DateUnit,
+  timeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone
+): DateArithmeticResult {
+  assertTimeZone(timeZone);
+
+  const { date, hasTime } = resolveStart(start, timeZone);
+  const withTime = hasTime || unit === 'hours' || unit === 'minutes';
+  const result = addToDate(date, amount, unit);
+
+  return {
+    timeZone,
+    start: formatDate(date, withTime),
+    result: formatDate(result, withTime),
+    date: result.toISOString().slice(0, 10),
+    weekday: result.toLocaleDateString('en-US', { timeZone: 'UTC', weekday: 'long' })
+  };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+
+import { ExpressionError, evaluateExpression } from './expression.evaluator';
+
+describe('evaluateExpression', () => {
+  it('follows operator precedence and associativity', () => {
+    expect(evaluateExpression('2 + 3 * 4')).toBe(14);
+    expect(evaluateExpression('(2 + 3) * 4')).toBe(20);
+    expect(evaluateExpression('2 ^ 3 ^ 2')).toBe(512);
+    expect(evaluateExpression('-2 ^ 2')).toBe(-4);
+    expect(evaluateExpression('10 - 4 - 3')).toBe(3);
+    expect(evaluateExpression('2 ** 10')).toBe(1024);
+  });
+
+  it('applies percentages relative to the left operand of + and -', () => {
+    expect(evaluateExpression('200 + 10%')).toBe(220);
+    expect(evaluateExpression('200 - 25%')).toBe(150);
+    expect(evaluateExpression('50% * 8')).toBe(4);
+  });
+
+  it('reads number literals with separators, radix prefixes and exponents', () => {
+    expect(evaluateExpression('1_000 + .5')).toBe(1000.5);
+    expect(evaluateExpression('0xff + 0b101 + 0o17')).toBe(255 + 5 + 15);
+    expect(evaluateExpression('2.5e-3 * 1e3')).toBe(2.5);
+  });
+
+  it('accepts the × ÷ and − symbols of phone keyboards', () => {
+    expect(evaluateExpression('6 × 7 ÷ 2 − 1')).toBe(20);
+  });
+
+  it('evaluates functions and constants', () => {
+    expect(evaluateExpression('sqrt(16) + abs(-3)')).toBe(7);
+    expect(evaluateExpression('log(1000)')).toBe(3);
+    expect(evaluateExpression('log(8, 2)')).toBe(3);
+    expect(evaluateExpression('round(pi, 2)')).toBe(3.14);
+    expect(evaluateExpression('max(1, 9, 4) - min(3, 2)')).toBe(7);
+    expect(evaluateExpression('cos(0) + PI - pi')).toBe(1);
+  });
+
+  it('removes binary floating point noise', () => {
+    expect(evaluateExpression('0.1 + 0.2')).toBe(0.3);
+  });
+
+  it.each([
+    ['', 'Expression is empty'],
+    ['1 / 0', 'Division by zero at position 3'],
+    ['(1 + 2', "Missing ')' for the '(' opened at position 1"],
+    ['1 + 2)', 'Unmatched closing parenthesis at position 6'],
+    ['2 $ 3', "Unexpected character '$' at position 3"],
+    ['foo(1)', "Unknown function 'foo' at position 1"],
+    ['sqrt', "Function 'sqrt' needs parentheses at position 1"],
+    ['pow(2)', 'pow expects 2 arguments, got 1 at position 1'],
+    ['sqrt(-1)', 'Result is undefined (e.g. square root of a negative number)'],
+    ['10 ^ 400', 'Result is too large'],
+    ['1__0', "Malformed number '1__0' at position 1"],
+    ['2 3', 'Expected an operator at position 3']
+  ])('rejects %j with a readable error', (expression, message) => {
+    expect(() => evaluateExpression(expression)).toThrow(ExpressionError);
+    expect(() => evaluateExpression(expression)).toThrow(message);
+  });
+
+  it('reports the position of the error', () => {
+    expect(() => evaluateExpression('1 + * 2')).toThrow(expect.objectContaining({ position: 4 }));
+  });
+
+  it('does not resolve identifiers to prototype members or globals', () => {
+    expect(() => evaluateExpression('constructor')).toThrow("Unknown constant 'constructor'");
+    expect(() => evaluateExpression('__proto__')).toThrow("Unknown constant '__proto__'");
+    expect(() => evaluateExpression('valueof(1)')).toThrow("Unknown function 'valueof'");
+    expect(() => evaluateExpression('alert(1)')).toThrow("Unknown function 'alert'");
+  });
+
+  it('rejects deep nesting with an ExpressionError instead of overflowing the stack', () => {
+    expect(() => evaluateExpression(`${'('.repeat(5000)}1${')'.repeat(5000)}`)).toThrow(ExpressionError);
+    expect(() => evaluateExpression(`${'('.repeat(500)}1${')'.repeat(500)}`))
+      .toThrow('Expression is nested more than 100 levels deep at position 101');
+    expect(() => evaluateExpression(`${'-'.repeat(500)}1`)).toThrow('Expression is nested more than 100 levels deep');
+    expect(() => evaluateExpression(`${'sqrt('.repeat(200)}1${')'.repeat(200)}`)).toThrow('nested more than 100 levels');
+    expect(() => evaluateExpression(Array(300).fill('2').join('^'))).toThrow('nested more than 100 levels');
+    expect(evaluateExpression(`${'('.repeat(100)}1${')'.repeat(100)}`)).toBe(1);
+  });
+
+  it('rejects overlong expressions', () => {
+    expect(() => evaluateExpression(Array(5000).fill('1').join('+'))).toThrow('Expression is longer than 2000 tokens');
+    expect(evaluateExpression(Array(900).fill('1').join('+'))).toBe(900);
+  });
+
+  it('names thousands separators and decimal commas instead of a generic error', () => {
+    expect(() => evaluateExpression('1,000 * 2')).toThrow('Thousands separators are not supported; write 1000 or 1_000 at position 2');
+    expect(() => evaluateExpression('(1,000 + 1)')).toThrow('Thousands separators are not supported');
+    expect(() => evaluateExpression('1,5 * 2')).toThrow("',' only separates function arguments; use '.' for decimals at position 2");
+    expect(evaluateExpression('max(1,200)')).toBe(200);
+  });
+
+  it('points to mod for remainders, since % means percent', () => {
+    expect(() => evaluateExpression('10 % 3')).toThrow("'%' means percent; for the remainder of a division use mod(a, b) at position 4");
+    expect(evaluateExpression('mod(10, 3)')).toBe(1);
+    expect(evaluateExpression('10% * 3')).toBe(0.3);
+  });
+});
@@ -0,0 +1,388 @@
+// MARK: - Type definitions
+type Token =
+  | { type: 'number'; value: number; position: number }
+  | { type: 'identifier'; name: string; position: number }
+  | { type: 'operator'; operator: '+' | '-' | '*' | '/' | '^' | '%' | '(' | ')' | ','; position: number }
+  | { type: 'end'; position: number };
+
+type ExpressionNode =
+  | { type: 'number'; value: number }
+  | { type: 'constant'; name: string; position: number }
+  | { type: 'percent'; operand: ExpressionNode }
+  | { type: 'unary'; operator: '+' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: '+' | '-' | '*' | '/' | '^'; left: ExpressionNode; right: ExpressionNode; position: number }
+  | { type: 'call'; name: string; args: ExpressionNode[]; position: number };
+
+interface MathFunction {
+  // Inclusive bounds on the argument count
+  arity: [number, number];
+  apply: (...args: number[]) => number;
+}
+
+/**
+ * Raised for malformed expressions and undefined results. `position` is the zero-based
+ * offset in the expression the error refers to, when there is one.
+ */
+export class ExpressionError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+  tau: 2 * Math.PI
+};
+
+const roundTo = (value: number, digits = 0): number => {
+  if (!Number.isInteger(digits)) throw new ExpressionError('round expects a whole number of digits');
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const FUNCTIONS: Record<string, MathFunction> = {
+  sqrt: { arity: [1, 1], apply: Math.sqrt },
+  cbrt: { arity: [1, 1], apply: Math.cbrt },
+  abs: { arity: [1, 1], apply: Math.abs },
+  // log(x) is base 10, log(x, base) any base
+  log: { arity: [1, 2], apply: (value, base) => base === undefined ? Math.log10(value) : Math.log(value) / Math.log(base) },
+  ln: { arity: [1, 1], apply: Math.log },
+  log2: { arity: [1, 1], apply: Math.log2 },
+  exp: { arity: [1, 1], apply: Math.exp },
+  sin: { arity: [1, 1], apply: Math.sin },
+  cos: { arity: [1, 1], apply: Math.cos },
+  tan: { arity: [1, 1], apply: Math.tan },
+  asin: { arity: [1, 1], apply: Math.asin },
+  acos: { arity: [1, 1], apply: Math.acos },
+  atan: { arity: [1, 1], apply: Math.atan },
+  round: { arity: [1, 2], apply: roundTo },
+  floor: { arity: [1, 1], apply: Math.floor },
+  ceil: { arity: [1, 1], apply: Math.ceil },
+  min: { arity: [1, Infinity], apply: Math.min },
+  max: { arity: [1, Infinity], apply: Math.max },
+  pow: { arity: [2, 2], apply: Math.pow },
+  // `%` is a percentage, so the remainder of a division has its own function
+  mod: { arity: [2, 2], apply: (value, divisor) => value % divisor }
+};
+
+// Parentheses, calls, signs and exponents nested deeper than this are rejected before the
+// parser or the evaluator can overflow the stack
+const MAX_NESTING = 100;
+// Bounds the depth of operator chains such as 1+1+…+1, which evaluate recursively
+const MAX_TOKENS = 2000;
+
+// Identifiers come from the model, so `constructor` and the like must not resolve to prototype members
+const lookup = <T>(table: Record<string, T>, name: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(table, name) ? table[name] : undefined;
+
+// MARK: - Tokenizer
+const RADIX_PREFIXES: Record<string, { radix: number; digits: RegExp }> = {
+  '0x': { radix: 16, digits: /^[0-9a-f_]+/i },
+  '0b': { radix: 2, digits: /^[01_]+/ },
+  '0o': { radix: 8, digits: /^[0-7_]+/ }
+};
+
+// Decimal numbers with optional `_` digit separators, fraction and exponent: 1_000, .5, 2.5e-3
+const DECIMAL_NUMBER = /^(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:e[+-]?\d+)?/i;
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const char = expression[index];
+    const rest = expression.slice(index);
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const prefix = RADIX_PREFIXES[rest.slice(0, 2).toLowerCase()];
+    if (prefix) {
+      const digits = prefix.digits.exec(rest.slice(2))?.[0];
+      if (!digits || digits.startsWith('_') || digits.endsWith('_')) {
+        throw new ExpressionError(`Malformed number '${rest.slice(0, 2)}${digits ?? ''}'`, index);
+      }
+      tokens.push({ type: 'number', value: parseInt(digits.replace(/_/g, ''), prefix.radix), position: index });
+      index += 2 + digits.length;
+      continue;
+    }
+
+    const decimal = DECIMAL_NUMBER.exec(rest)?.[0];
+    if (decimal) {
+      if (/_(?![0-9])|(?<![0-9])_/.test(decimal)) {
+        throw new ExpressionError(`Malformed number '${decimal}'`, index);
+      }
+      tokens.push({ type: 'number', value: Number(decimal.replace(/_/g, '')), position: index });
+      index += decimal.length;
+      continue;
+    }
+
+    const identifier = /^[a-z_][a-z0-9_]*/i.exec(rest)?.[0];
+    if (identifier) {
+      tokens.push({ type: 'identifier', name: identifier.toLowerCase(), position: index });
+      index += identifier.length;
+      continue;
+    }
+
+    // `**` is accepted as an alias for `^`; × and ÷ as typed on phone keyboards
+    if (rest.startsWith('**')) {
+      tokens.push({ type: 'operator', operator: '^', position: index });
+      index += 2;
+      continue;
+    }
+    const aliases: Record<string, '*' | '/' | '-'> = { '×': '*', '÷': '/', '−': '-' };
+    const operator = aliases[char] ?? char;
+    if ('+-*/^%(),'.includes(operator)) {
+      tokens.push({ type: 'operator', operator: operator as '+', position: index });
+      index++;
+      continue;
+    }
+
+    throw new ExpressionError(`Unexpected character '${char}'`, index);
+  }
+
+  if (tokens.length >= MAX_TOKENS) throw new ExpressionError(`Expression is longer than ${MAX_TOKENS} tokens`);
+
+  tokens.push({ type: 'end', position: expression.length });
+  return tokens;
+}
+
+// MARK: - Parser
+/**
+ * Recursive-descent parser. From lowest to highest precedence: `+ -`, `* /`, unary
+ * `+ -`, `^` (right-associative, so 2^3^2 is 2^9), postfix `%`, then numbers,
+ * constants, function calls and parentheses.
+ */
+class Parser {
+  private expression: string;
+  private tokens: Token[];
+  private index = 0;
+  private depth = 0;
+
+  constructor(expression: string) {
+    this.expression = expression;
+    this.tokens = tokenize(expression);
+  }
+
+  parse(): ExpressionNode {
+    const node = this.parseAdditive();
+    const token = this.peek();
+    if (token.type !== 'end') {
+      this.rejectComma(token);
+      throw new ExpressionError(token.type === 'operator' && token.operator === ')'
+        ? 'Unmatched closing parenthesis'
+        : 'Expected an operator', token.position);
+    }
+    return node;
+  }
+
+  private nested<T>(position: number, parse: () => T): T {
+    if (++this.depth > MAX_NESTING) {
+      throw new ExpressionError(`Expression is nested more than ${MAX_NESTING} levels deep`, position);
+    }
+    try {
+      return parse();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  // A comma outside a function call is a thousands separator or a decimal comma; neither is guessed at
+  private rejectComma(token: Token): void {
+    if (token.type !== 'operator' || token.operator !== ',') return;
+    throw new ExpressionError(/^,\d{3}(?!\d)/.test(this.expression.slice(token.position))
+      ? 'Thousands separators are not supported; write 1000 or 1_000'
+      : "',' only separates function arguments; use '.' for decimals", token.position);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private isOperator(...operators: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'operator' && operators.includes(token.operator);
+  }
+
+  private parseAdditive(): ExpressionNode {
+    let left = this.parseMultiplicative();
+    while (this.isOperator('+', '-')) {
+      const token = this.tokens[this.index++] as Extract<Token, { type: 'operator' }>;
+      const right = this.parseMultiplicative();
+      left = { type: 'binary', operator: token.operator as '+' | '-', left, right, position: token.position };
+    }
+    return left;
+  }
+
+  private parseMultiplicative(): ExpressionNode {
+    let left = this.parseUnary();
+    while (this.isOperator('*', '/')) {
+      const token = this.tokens[this.index++] as Extract<Token, { type: 'operator' }>;
+      const right = this.parseUnary();
+      left = { type: 'binary', operator: token.operator as '*' | '/', left, right, position: token.position };
+    }
+    return left;
+  }
+
+  // Unary minus binds looser than `^`, so -2^2 is -4
+  private parseUnary(): ExpressionNode {
+    if (this.isOperator('+', '-')) {
+      const token = this.tokens[this.index++] as Extract<Token, { type: 'operator' }>;
+      const operand = this.nested(token.position, () => this.parseUnary());
+      return { type: 'unary', operator: token.operator as '+' | '-', operand };
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): ExpressionNode {
+    const base = this.parsePostfix();
+    if (!this.isOperator('^')) return base;
+
+    const { position } = this.tokens[this.index++];
+    return { type: 'binary', operator: '^', left: base, right: this.nested(position, () => this.parseUnary()), position };
+  }
+
+  private parsePostfix(): ExpressionNode {
+    let node = this.parsePrimary();
+    while (this.isOperator('%')) {
+      const { position } = this.tokens[this.index++];
+      const next = this.peek();
+      if (next.type === 'number' || next.type === 'identifier' || (next.type === 'operator' && next.operator === '(')) {
+        throw new ExpressionError("'%' means percent; for the remainder of a division use mod(a, b)", position);
+      }
+      node = { type: 'percent', operand: node };
+    }
+    return node;
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.tokens[this.index++];
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value };
+      case 'identifier':
+        if (this.isOperator('(')) {
+          this.index++;
+          const args = this.nested(token.position, () => this.parseArguments(token.position));
+          return { type: 'call', name: token.name, args, position: token.position };
+        }
+        return { type: 'constant', name: token.name, position: token.position };
+      case 'operator':
+        if (token.operator === '(') {
+          return this.nested(token.position, () => {
+            const inner = this.parseAdditive();
+            this.rejectComma(this.peek());
+            this.expectClosing(token.position);
+            return inner;
+          });
+        }
+        throw new ExpressionError(`Unexpected '${token.operator}'`, token.position);
+      case 'end':
+        throw new ExpressionError('Unexpected end of expression', token.position);
+    }
+  }
+
+  private parseArguments(openPosition: number): ExpressionNode[] {
+    const args: ExpressionNode[] = [];
+    if (this.isOperator(')')) {
+      this.index++;
+      return args;
+    }
+    args.push(this.parseAdditive());
+    while (this.isOperator(',')) {
+      this.index++;
+      args.push(this.parseAdditive());
+    }
+    this.expectClosing(openPosition);
+    return args;
+  }
+
+  private expectClosing(openPosition: number): void {
+    if (!this.isOperator(')')) {
+      throw new ExpressionError("Missing ')' for the '(' opened", openPosition);
+    }
+    this.index++;
+  }
+}
+
+// MARK: - Evaluation
+function evaluate(node: ExpressionNode): number {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'constant': {
+      const value = lookup(CONSTANTS, node.name);
+      if (value === undefined) {
+        throw new ExpressionError(lookup(FUNCTIONS, node.name)
+          ? `Function '${node.name}' needs parentheses`
+          : `Unknown constant '${node.name}'`, node.position);
+      }
+      return value;
+    }
+    case 'percent':
+      return evaluate(node.operand) / 100;
+    case 'unary':
+      return node.operator === '-' ? -evaluate(node.operand) : evaluate(node.operand);
+    case 'call': {
+      const fn = lookup(FUNCTIONS, node.name);
+      if (!fn) throw new ExpressionError(`Unknown function '${node.name}'`, node.position);
+
+      const [min, max] = fn.arity;
+      if (node.args.length < min || node.args.length > max) {
+        const expected = min === max ? `${min}` : max === Infinity ? `at least ${min}` : `${min} to ${max}`;
+        throw new ExpressionError(
+          `${node.name} expects ${expected} argument${expected === '1' ? '' : 's'}, got ${node.args.length}`,
+          node.position
+        );
+      }
+      return fn.apply(...node.args.map(evaluate));
+    }
+    case 'binary': {
+      const left = evaluate(node.left);
+      // A percentage added to or subtracted from a value is relative to it: 200 + 10% is 220
+      if ((node.operator === '+' || node.operator === '-') && node.right.type === 'percent') {
+        const share = left * evaluate(node.right);
+        return node.operator === '+' ? left + share : left - share;
+      }
+
+      const right = evaluate(node.right);
+      switch (node.operator) {
+        case '+':
+          return left + right;
+        case '-':
+          return left - right;
+        case '*':
+          return left * right;
+        case '/':
+          if (right === 0) throw new ExpressionError('Division by zero', node.position);
+          return left / right;
+        case '^':
+          return left ** right;
+      }
+    }
+  }
+}
+
+/**
+ * Evaluates an arithmetic expression without `eval` or `Function`, so it also works under a
+ * strict Content Security Policy. Throws `ExpressionError` with a readable message for
+ * malformed input and for results that are not finite numbers.
+ */
+export function evaluateExpression(expression: string): number {
+  if (!expression.trim()) throw new ExpressionError('Expression is empty');
+
+  const result = evaluate(new Parser(expression).parse());
+  if (Number.isNaN(result)) throw new ExpressionError('Result is undefined (e.g. square root of a negative number)');
+  if (!Number.isFinite(result)) throw new ExpressionError('Result is too large');
+
+  // Drop binary floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+  return Number.parseFloat(result.toPrecision(15));
+}
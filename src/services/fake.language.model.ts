@@ -0,0 +1,171 @@
+import type { AvailabilityResult } from './foundation.models.service';
+
+// MARK: - Type definitions
+export interface FakeToolCall {
+  // Name (or toolId) of a registered tool
+  toolName: string;
+  payload: string;
+}
+
+export interface FakeScriptRule {
+  // Strings match as case-insensitive substrings of the prompt
+  match: string | RegExp | ((prompt: string) => boolean);
+  response?: string | ((prompt: string, toolOutputs: string[]) => string);
+  toolCalls?: FakeToolCall[];
+  // Reject the request with this message instead of responding
+  error?: string;
+  // Remove the rule after its first match
+  once?: boolean;
+}
+
+export interface FakeModelConfig {
+  availability: AvailabilityResult['status'];
+  latencyMs: number;
+  chunkSize: number;
+  chunkDelayMs: number;
+}
+
+export interface FakeModelRequest {
+  prompt: string;
+  instructions?: string;
+  history?: { prompt: string; response: string }[];
+}
+
+export interface FakeModelReply {
+  rule?: FakeScriptRule;
+  text: string;
+}
+
+const availabilityReasons: Record<AvailabilityResult['status'], string> = {
+  available: 'Foundation Models ready',
+  notEnabled: 'Apple Intelligence not enabled. Please enable in Settings.',
+  notEligible: 'Device not eligible for Apple Intelligence',
+  notReady: 'Model downloading. Please try again later.',
+  unavailable: 'Foundation Models unavailable',
+  notSupported: 'FoundationModels framework not available in this build'
+};
+
+const defaultConfig: FakeModelConfig = {
+  availability: 'available',
+  latencyMs: 0,
+  chunkSize: 8,
+  chunkDelayMs: 15
+};
+
+// MARK: - Fake model
+/**
+ * Deterministic stand-in for the on-device model used by the web implementation.
+ * Responses come from scripted rules, falling back to a fixed echo of the prompt.
+ */
+export class FakeLanguageModel {
+  private config: FakeModelConfig = { ...defaultConfig };
+  private rules: FakeScriptRule[] = [];
+
+  configure(config: Partial<FakeModelConfig>): void {
+    this.config = { ...this.config, ...config };
+  }
+
+  getConfig(): FakeModelConfig {
+    return { ...this.config };
+  }
+
+  setAvailability(status: AvailabilityResult['status']): void {
+    this.config.availability = status;
+  }
+
+  availability(): AvailabilityResult {
+    const status = this.config.availability;
+    return {
+      available: status === 'available',
+      status,
+      reason: availabilityReasons[status]
+    };
+  }
+
+  // Rules are evaluated in insertion order; the first match wins
+  script(...rules: FakeScriptRule[]): void {
+    this.rules.push(...rules);
+  }
+
+  reset(): void {
+    this.config = { ...defaultConfig };
+    this.rules = [];
+  }
+
+  findRule(prompt: string): FakeScriptRule | undefined {
+    const rule = this.rules.find(candidate => matches(candidate.match, prompt));
+    if (rule?.once) {
+      this.rules = this.rules.filter(candidate => candidate !== rule);
+    }
+    return rule;
+  }
+
+  async respond(
+    request: FakeModelRequest,
+    rule: FakeScriptRule | undefined = this.findRule(request.prompt),
+    toolOutputs: string[] = []
+  ): Promise<FakeModelReply> {
+    await delay(this.config.latencyMs);
+
+    if (this.config.availability !== 'available') {
+      throw new Error(availabilityReasons[this.config.availability]);
+    }
+    if (rule?.error) {
+      throw new Error(rule.error);
+    }
+
+    if (rule?.response !== undefined) {
+      const text = typeof rule.response === 'function'
+        ? rule.response(request.prompt, toolOutputs)
+        : rule.response;
+      return { rule, text };
+    }
+
+    return { rule, text: defaultResponse(request, toolOutputs) };
+  }
+
+  // Splits a response into the chunks a streaming call emits
+  chunk(text: string): string[] {
+    const size = Math.max(1, this.config.chunkSize);
+    const chunks: string[] = [];
+    for (let i = 0; i < text.length; i += size) {
+      chunks.push(text.slice(i, i + size));
+    }
+    return chunks;
+  }
+
+  async waitForChunk(): Promise<void> {
+    await delay(this.config.chunkDelayMs);
+  }
+}
+
+// MARK: - Helpers
+function matches(match: FakeScriptRule['match'], prompt: string): boolean {
+  if (typeof match === 'string') {
+    return prompt.toLowerCase().includes(match.toLowerCase());
+  }
+  if (match instanceof RegExp) {
+    return match.test(prompt);
+  }
+  return match(prompt);
+}
+
+function defaultResponse(request: FakeModelRequest, toolOutputs: string[]): string {
+  const parts = [`You said: "${request.prompt}"`];
+  if (request.history && request.history.length > 0) {
+    parts.push(`(turn ${request.history.length + 1} of this conversation)`);
+  }
+  if (toolOutputs.length > 0) {
+    parts.push(`Tool results: ${toolOutputs.join('; ')}`);
+  }
+  return parts.join(' ');
+}
+
+function delay(ms: number): Promise<void> {
+  if (ms <= 0) return Promise.resolve();
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+export const fakeLanguageModel = new FakeLanguageModel();
+
+export default fakeLanguageModel;
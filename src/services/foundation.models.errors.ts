@@ -0,0 +1,195 @@
+import type { AvailabilityResult } from './foundation.models.service';
+
+// MARK: - Type definitions
+export type ErrorDetail =
+  | { kind: 'guardrailViolation' }
+  | { kind: 'exceededContextWindow' }
+  | { kind: 'unsupportedLanguage' }
+  | { kind: 'sessionBusy' }
+  | { kind: 'toolFailed'; toolName?: string }
+  | { kind: 'rateLimited' }
+  | { kind: 'modelUnavailable'; status?: AvailabilityResult['status'] }
+  | { kind: 'refusal' }
+  | { kind: 'decodingFailure' }
+  | { kind: 'cancelled' }
+  | { kind: 'unknown' };
+
+export type ErrorKind = ErrorDetail['kind'];
+
+export type RecoveryAction =
+  | 'retry'
+  | 'shortenPrompt'
+  | 'newSession'
+  | 'rephrase'
+  | 'checkSettings'
+  | 'none';
+
+export interface ErrorPresentation {
+  kind: ErrorKind;
+  title: string;
+  message: string;
+  hint: string;
+  recovery: RecoveryAction;
+}
+
+// Native GenerationError / ToolCallError case names and the kinds they map to
+const nativeCaseKinds: Record<string, ErrorKind> = {
+  exceededContextWindowSize: 'exceededContextWindow',
+  guardrailViolation: 'guardrailViolation',
+  unsupportedLanguageOrLocale: 'unsupportedLanguage',
+  concurrentRequests: 'sessionBusy',
+  rateLimited: 'rateLimited',
+  assetsUnavailable: 'modelUnavailable',
+  refusal: 'refusal',
+  decodingFailure: 'decodingFailure',
+  unsupportedGuide: 'decodingFailure',
+  toolCallError: 'toolFailed'
+};
+
+// Checked in order against the native error message; the first match wins
+const messagePatterns: [RegExp, ErrorKind][] = [
+  [/cancel/i, 'cancelled'],
+  [/exceeded\s*context|context\s*window|context\s*size|too many tokens/i, 'exceededContextWindow'],
+  [/guardrail|unsafe content|sensitive content/i, 'guardrailViolation'],
+  [/unsupported\s*language|locale/i, 'unsupportedLanguage'],
+  [/concurrent\s*requests|already responding|isResponding|session is busy/i, 'sessionBusy'],
+  [/rate\s*limit|HTTP 429/i, 'rateLimited'],
+  [/tool\s*call\s*error|tool .*failed|tool execution/i, 'toolFailed'],
+  [/assets\s*unavailable|model downloading|not available|unreachable/i, 'modelUnavailable'],
+  [/refus/i, 'refusal'],
+  [/decoding\s*failure|unsupported\s*guide|invalid json|unexpected token/i, 'decodingFailure']
+];
+
+const presentations: Record<ErrorKind, Omit<ErrorPresentation, 'kind'>> = {
+  guardrailViolation: {
+    title: 'Blocked by safety guardrails',
+    message: 'The request or response was flagged by the model\'s safety guardrails.',
+    hint: 'Rephrase your prompt and try again.',
+    recovery: 'rephrase'
+  },
+  exceededContextWindow: {
+    title: 'Context window exceeded',
+    message: 'The prompt and conversation history are too long for the model.',
+    hint: 'Start a new session, and shorten your prompt if it is still too long.',
+    recovery: 'newSession'
+  },
+  unsupportedLanguage: {
+    title: 'Language not supported',
+    message: 'The model does not support the language or locale of this request.',
+    hint: 'Write your prompt in a supported language.',
+    recovery: 'rephrase'
+  },
+  sessionBusy: {
+    title: 'Session is busy',
+    message: 'The session is still responding to a previous request.',
+    hint: 'Wait for the current response to finish, then retry.',
+    recovery: 'retry'
+  },
+  toolFailed: {
+    title: 'Tool call failed',
+    message: 'A tool the model called failed while producing this response.',
+    hint: 'Check the selected tools and retry.',
+    recovery: 'retry'
+  },
+  rateLimited: {
+    title: 'Rate limited',
+    message: 'Too many requests were sent to the model in a short time.',
+    hint: 'Wait a moment, then retry.',
+    recovery: 'retry'
+  },
+  modelUnavailable: {
+    title: 'Model unavailable',
+    message: 'The language model is not available right now.',
+    hint: 'Check that Apple Intelligence is enabled and the model has finished downloading.',
+    recovery: 'checkSettings'
+  },
+  refusal: {
+    title: 'Request refused',
+    message: 'The model declined to respond to this request.',
+    hint: 'Rephrase your prompt and try again.',
+    recovery: 'rephrase'
+  },
+  decodingFailure: {
+    title: 'Unreadable response',
+    message: 'The model\'s response could not be decoded into the requested format.',
+    hint: 'Retry, or simplify the requested schema.',
+    recovery: 'retry'
+  },
+  cancelled: {
+    title: 'Cancelled',
+    message: 'The request was cancelled.',
+    hint: 'Send the message again to retry.',
+    recovery: 'retry'
+  },
+  unknown: {
+    title: 'Something went wrong',
+    message: 'The request failed for an unknown reason.',
+    hint: 'Retry, or start a new session if the problem persists.',
+    recovery: 'retry'
+  }
+};
+
+// MARK: - Classification
+/**
+ * Derives a structured error detail from a native failure. Capacitor rejections carry
+ * the Swift error description in `message` and, when the plugin provides one, a `code`.
+ */
+export function classifyError(error: unknown): ErrorDetail {
+  if (!error) {
+    return { kind: 'unknown' };
+  }
+  if (error instanceof SyntaxError) {
+    return { kind: 'decodingFailure' };
+  }
+
+  const { code, message } = error as { code?: unknown; message?: unknown };
+  const text = typeof message === 'string' ? message : String(error);
+
+  const kind = (typeof code === 'string' ? nativeCaseKinds[code] : undefined)
+    ?? Object.entries(nativeCaseKinds).find(([name]) => text.includes(name))?.[1]
+    ?? messagePatterns.find(([pattern]) => pattern.test(text))?.[1]
+    ?? 'unknown';
+
+  if (kind === 'toolFailed') {
+    const toolName = /tool\s+['"`]?([\w-]+)['"`]?/i.exec(text)?.[1];
+    return { kind, toolName };
+  }
+  return { kind } as ErrorDetail;
+}
+
+export function presentErrorDetail(detail: ErrorDetail, fallbackMessage?: string): ErrorPresentation {
+  const presentation = presentations[detail.kind];
+
+  switch (detail.kind) {
+    case 'toolFailed':
+      return {
+        kind: detail.kind,
+        ...presentation,
+        message: detail.toolName
+          ? `The tool "${detail.toolName}" failed while producing this response.`
+          : presentation.message
+      };
+    case 'modelUnavailable':
+      if (detail.status === 'notReady') {
+        return {
+          kind: detail.kind,
+          ...presentation,
+          message: 'The model is still downloading.',
+          hint: 'Wait a few minutes, then retry.',
+          recovery: 'retry'
+        };
+      }
+      return { kind: detail.kind, ...presentation, message: fallbackMessage ?? presentation.message };
+    case 'unknown':
+      return { kind: detail.kind, ...presentation, message: fallbackMessage ?? presentation.message };
+    default:
+      return { kind: detail.kind, ...presentation };
+  }
+}
+
+// Accepts anything thrown by the service or UI code, including plain strings
+export function presentError(error: unknown): ErrorPresentation {
+  const detail = (error as { detail?: ErrorDetail } | null)?.detail ?? classifyError(error);
+  const message = error instanceof Error ? error.message : typeof error === 'string' ? error : undefined;
+  return presentErrorDetail(detail, message);
+}
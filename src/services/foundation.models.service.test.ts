@@ -0,0 +1,71 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import { FakeLanguageModel } from './fake.language.model';
+import { FoundationModelsWeb } from './foundation.models.web';
+import { foundationModels, type CompactionEvent } from './foundation.models.service';
+
+const model = new FakeLanguageModel();
+// Long enough that two turns pass the compaction threshold below
+const LONG_PROMPT = 'Tell me more about the trip to Lisbon and what to pack for it. '.repeat(6);
+
+describe('context compaction', () => {
+  beforeAll(async () => {
+    model.configure({ chunkDelayMs: 0 });
+    await foundationModels.configureProviders({ primary: { name: 'fake', provider: new FoundationModelsWeb(model) } });
+    foundationModels.configureRetry({ maxAttempts: 1 });
+    foundationModels.configureContextBudget({ maxTokens: 400, compactAt: 0.5, retainTurns: 1 });
+  });
+
+  afterEach(() => {
+    model.reset();
+    model.configure({ chunkDelayMs: 0 });
+    vi.restoreAllMocks();
+  });
+
+  it('replaces the older turns with a summary', async () => {
+    model.script({ match: 'Summarize this conversation', response: 'The user plans a trip to Lisbon.' });
+    const { sessionId } = await foundationModels.createConversationSession();
+    const events: CompactionEvent[] = [];
+    const unsubscribe = foundationModels.on('compaction', event => events.push(event));
+
+    await foundationModels.continueConversation(sessionId, LONG_PROMPT);
+    await foundationModels.continueConversation(sessionId, LONG_PROMPT);
+    await foundationModels.continueConversation(sessionId, 'And the weather?');
+    unsubscribe();
+
+    expect(events[0]).toEqual(expect.objectContaining({ sessionId, summarizedTurns: 1 }));
+    expect(events[0].dropped).toBeUndefined();
+    expect(foundationModels.getTranscript(sessionId)).toContainEqual(
+      expect.objectContaining({ type: 'compaction', summary: 'The user plans a trip to Lisbon.' })
+    );
+  });
+
+  it('drops the oldest turns and runs the turn when the summary fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    model.script({ match: 'Summarize this conversation', error: 'Summary model crashed' });
+    const { sessionId } = await foundationModels.createConversationSession('Be brief.');
+    const events: CompactionEvent[] = [];
+    const unsubscribe = foundationModels.on('compaction', event => events.push(event));
+
+    await foundationModels.continueConversation(sessionId, LONG_PROMPT);
+    await foundationModels.continueConversation(sessionId, LONG_PROMPT);
+    await expect(foundationModels.continueConversation(sessionId, 'And the weather?'))
+      .resolves.toContain('And the weather?');
+    // The session keeps working instead of failing on the same summary every turn
+    await expect(foundationModels.continueConversation(sessionId, 'Thanks'))
+      .resolves.toContain('Thanks');
+    unsubscribe();
+
+    expect(events[0]).toEqual(expect.objectContaining({ sessionId, summarizedTurns: 1, dropped: true }));
+    expect(events[0].tokensAfter).toBeLessThan(events[0].tokensBefore);
+    expect(foundationModels.getContextBudget(sessionId).ratio).toBeLessThan(0.5);
+  });
+
+  it('rejects a direct compaction whose summary fails', async () => {
+    model.script({ match: 'Summarize this conversation', error: 'Summary model crashed' });
+    const { sessionId } = await foundationModels.createConversationSession();
+    await foundationModels.continueConversation(sessionId, 'Hello');
+
+    await expect(foundationModels.compactConversation(sessionId)).rejects.toThrow('Summary generation failed');
+  });
+});
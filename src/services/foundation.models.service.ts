@@ -1,17 +1,56 @@
 import { registerPlugin } from '@capacitor/core';
 import type { PluginListenerHandle } from '@capacitor/core';
 
+import { AsyncEventQueue } from './async.event.queue';
+import {
+  compactionPrompt,
+  composeInstructions,
+  defaultContextBudgetPolicy,
+  estimateContextTokens,
+  estimateTokens,
+  sessionContext,
+  type ContextBudget,
+  type ContextBudgetPolicy,
+  type SessionContext
+} from './context.budget';
+import { classifyError, type ErrorDetail, type ErrorKind } from './foundation.models.errors';
+import type { JSONSchema } from './json.schema';
+import { RequestScheduler, type QueueState, type RequestPriority } from './request.scheduler';
+import { SessionManager, type ManagedSession } from './session.manager';
+import {
+  TranscriptStore,
+  transcriptTurns,
+  type TranscriptChangeEvent,
+  type TranscriptEntry
+} from './session.transcript';
+import {
+  createApprovalCheck,
+  createToolHandler,
+  parseToolError,
+  serializeToolResult,
+  toolErrorOutput,
+  type ToolDefinition,
+  type ToolErrorOutput,
+  type ToolHandler
+} from './tool.definition';
+import { sanitizeToolOutput } from './tool.output.sanitizer';
+import { promptLibrary, type PromptName, type PromptValuesFor } from './prompt.library';
+import { TypedEventEmitter } from './typed.event.emitter';
+
 // MARK: - Type definitions
+// Where accepted, `tools` limits the registered tools (by toolId) offered to the model; omitted means all
 export interface FoundationModelsPlugin {
   // Basic text generation
   generateText(options: { 
     prompt: string; 
     maxTokens?: number; 
     temperature?: number; 
+    requestId?: string;
+    tools?: string[];
   }): Promise<{ text: string }>;
 
   // Guided generation
-  generateSummary(options: { prompt: string }): Promise<{ json: string }>;
+  generateSummary(options: { prompt: string; requestId?: string }): Promise<{ json: string }>;
 
   // Tool calling
   echo(options: { message: string }): Promise<{ reply: string }>;
@@ -20,23 +59,42 @@ export interface FoundationModelsPlugin {
   generateDynamic(options: { 
     prompt: string; 
     schema: string; 
+    requestId?: string;
   }): Promise<{ json: string }>;
 
   // Instructions-based generation
   generateWithInstructions(options: { 
     prompt: string; 
     instructions: string; 
+    requestId?: string;
+    tools?: string[];
   }): Promise<{ text: string }>;
 
   // Streaming generation
-  generateStreaming(options: { prompt: string }): Promise<{ streamId: string }>;
-
-  // Session management
-  createSession(options: { instructions?: string }): Promise<{ sessionId: string }>;
+  generateStreaming(options: {
+    prompt: string;
+    maxTokens?: number;
+    temperature?: number;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ streamId: string }>;
+
+  // Session management; `history` seeds the session with earlier turns
+  createSession(options: {
+    instructions?: string;
+    history?: TranscriptEntry[];
+    tools?: string[];
+  }): Promise<{ sessionId: string }>;
   continueConversation(options: { 
     sessionId: string; 
     prompt: string; 
+    requestId?: string;
   }): Promise<{ text: string }>;
+  // Releases a native session; the service rebuilds evicted sessions from their transcript
+  deleteSession(options: { sessionId: string }): Promise<{ success: boolean }>;
+
+  // Cancellation of an in-flight request started with `requestId`
+  cancelGeneration(options: { requestId: string }): Promise<{ success: boolean }>;
 
   // Performance optimization
   prewarmSession(): Promise<{ success: boolean }>;
@@ -49,13 +107,15 @@ export interface FoundationModelsPlugin {
 
   // Event listeners
   addListener(eventName: 'streamingUpdate', listenerFunc: (data: StreamingChunk) => void): Promise<PluginListenerHandle>;
+  addListener(eventName: 'toolCall', listenerFunc: (data: ToolCallEvent) => void): Promise<PluginListenerHandle>;
   removeAllListeners(): Promise<void>;
 
   // New method for getting session info
   getSessionInfo(options: { sessionId: string }): Promise<SessionInfo>;
 
   // Dynamic tool registration
-  registerTool(options: { toolId: string; name: string; description: string }): Promise<{ success: boolean }>;
+  registerTool(options: ToolRegistration): Promise<{ success: boolean }>;
+  unregisterTool(options: { toolId: string }): Promise<{ success: boolean }>;
   sendToolResult(options: { callId: string; output: string }): Promise<{ success: boolean }>;
 }
 
@@ -71,15 +131,159 @@ export interface GenerationOptions {
   maxTokens?: number;
   includeSchemaInPrompt?: boolean;
   safetyLevel?: 'default' | 'strict' | 'permissive';
+  requestId?: string;
+  tools?: string[];
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Registered toolIds available to this request; all registered tools when omitted
+  tools?: string[];
+  // Defaults to 'interactive'; background requests wait until no interactive request is queued
+  priority?: RequestPriority;
+}
+
+export interface SchedulerOptions {
+  // Requests running at once across all sessions; turns of one session always run one at a time
+  maxConcurrent: number;
+  // A stream that sends nothing for this long fails, so a lost end of stream cannot keep its slot
+  streamIdleTimeoutMs: number;
+  // Upper bound on a stream from taking its slot to the last chunk
+  streamTimeoutMs: number;
+}
+
+export interface RetryPolicy {
+  // Total attempts including the first; 1 disables retries
+  maxAttempts: number;
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffFactor: number;
+  // Fraction of each delay randomized in both directions, 0 to 1
+  jitter: number;
+  retryOn: ErrorKind[];
+}
+
+export interface RetryEvent {
+  operation: string;
+  // The attempt about to be made, starting at 2
+  attempt: number;
+  maxAttempts: number;
+  delayMs: number;
+  error: FoundationModelsError;
+}
+
+export interface FoundationModelsEvents {
+  retry: RetryEvent;
+  queue: QueueState;
+  transcript: TranscriptChangeEvent;
+  contextBudget: ContextBudget;
+  compaction: CompactionEvent;
+  toolCallStarted: ToolCallStartedEvent;
+  toolCallFinished: ToolCallFinishedEvent;
+  toolApprovalRequested: ToolApprovalRequest;
+  toolApprovalResolved: ToolApprovalResolvedEvent;
+}
+
+export interface CompactionEvent {
+  sessionId: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  summarizedTurns: number;
+  // Set when the summary failed and those turns were dropped without one
+  dropped?: boolean;
 }
 
 export interface StreamingChunk {
   chunk: string;
   callId: string;
+  // Set when `chunk` is the full text so far rather than a delta
+  isSnapshot?: boolean;
+  // Failure detail accompanying '[STREAM_ERROR]'
+  error?: string;
+}
+
+export interface StreamTiming {
+  startedAt: number;
+  firstChunkAt?: number;
+  completedAt: number;
+  timeToFirstChunkMs?: number;
+  durationMs: number;
+}
+
+export type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'snapshot'; text: string }
+  | { type: 'done'; text: string; timing: StreamTiming }
+  | { type: 'error'; error: FoundationModelsError; text: string };
+
+export interface ToolRegistration {
+  toolId: string;
+  name: string;
+  description: string;
+  // JSON schema of the arguments; without it the tool receives a single free-form `payload` string
+  parameters?: JSONSchema;
+}
+
+export interface ToolCallEvent {
+  toolId: string;
+  callId: string;
+  payload: string;
+  // Request that triggered the call, so cancelling it also cancels the pending tool call
+  requestId?: string;
+}
+
+export interface ToolCallStartedEvent {
+  callId: string;
+  toolId: string;
+  toolName: string;
+  arguments: string;
+  requestId?: string;
+  sessionId?: string;
+  startedAt: number;
+}
+
+export interface ToolCallFinishedEvent extends ToolCallStartedEvent {
+  output: string;
+  durationMs: number;
+  // Set when the output is a structured tool error
+  error?: ToolErrorOutput['error'];
+  // Messages the handler wrote with `context.log`, e.g. request and response details
+  logs?: string[];
+}
+
+// A tool call held until the user decides on it with `resolveToolApproval`
+export type ToolApprovalRequest = ToolCallStartedEvent;
+
+export type ToolApprovalDecision =
+  // `arguments` replaces the model's arguments, e.g. after the user edited them
+  | { approved: true; arguments?: string }
+  // `reason` is passed to the model along with the denial
+  | { approved: false; reason?: string };
+
+export interface ToolApprovalResolvedEvent {
+  callId: string;
+  outcome: 'approved' | 'denied' | 'cancelled';
+}
+
+export interface ToolPolicy {
+  // Time a tool handler gets before the model receives a timeout error instead
+  timeoutMs: number;
+}
+
+export interface ToolOptions {
+  // Overrides `ToolPolicy.timeoutMs` for this tool
+  timeoutMs?: number;
+  // Pauses calls until the user approves them; a predicate decides per call from the raw arguments
+  requiresApproval?: boolean | ((payload: string) => boolean);
+  // JSON schema sent with the registration; the handler still receives the raw argument string
+  parameters?: JSONSchema;
 }
 
 export interface ConversationSession {
   sessionId: string;
+  name?: string;
+  // Tools scoped to this session; all registered tools when omitted
+  tools?: string[];
   isActive: boolean;
   messageCount: number;
 }
@@ -90,20 +294,88 @@ export interface SessionInfo {
   messageCount: number;
 }
 
+export interface SessionOptions {
+  name?: string;
+  // Registered toolIds the session may call; all registered tools when omitted
+  tools?: string[];
+}
+
+export interface SessionListing extends SessionInfo {
+  name?: string;
+  // Whether a native session is currently allocated; evicted sessions are rebuilt on next use
+  isLive: boolean;
+  lastUsedAt: number;
+  contextBudget: ContextBudget;
+}
+
+export interface SessionLimits {
+  // Native sessions kept alive at once; least recently used ones beyond this are evicted
+  maxLiveSessions: number;
+}
+
+// MARK: - Provider routing
+// Providers implement the same contract as the native plugin
+export type LanguageModelProvider = FoundationModelsPlugin;
+
+export interface ProviderRoute {
+  name: string;
+  provider: LanguageModelProvider;
+}
+
+export interface ProviderRoutingRules {
+  primary: ProviderRoute;
+  fallback?: ProviderRoute;
+  // Primary availability statuses that send requests to the fallback provider
+  fallbackOn?: AvailabilityResult['status'][];
+}
+
+const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  initialDelayMs: 500,
+  maxDelayMs: 8000,
+  backoffFactor: 2,
+  jitter: 0.2,
+  retryOn: ['modelUnavailable', 'sessionBusy', 'rateLimited']
+};
+
+const defaultStreamTimeouts: Pick<SchedulerOptions, 'streamIdleTimeoutMs' | 'streamTimeoutMs'> = {
+  streamIdleTimeoutMs: 30_000,
+  streamTimeoutMs: 300_000
+};
+
+const defaultToolPolicy: ToolPolicy = {
+  timeoutMs: 30_000
+};
+
+const defaultFallbackStatuses: AvailabilityResult['status'][] = [
+  'notEnabled',
+  'notEligible',
+  'unavailable',
+  'notSupported'
+];
+
 // MARK: - Error types
 export class FoundationModelsError extends Error {
   public code?: string;
   public originalError?: Error;
+  // Specific cause, parsed from the native error payload unless given explicitly
+  public detail: ErrorDetail;
 
   constructor(
     message: string,
     code?: string,
-    originalError?: Error
+    originalError?: Error,
+    detail?: ErrorDetail
   ) {
     super(message);
     this.name = 'FoundationModelsError';
     this.code = code;
     this.originalError = originalError;
+    this.detail = detail ?? classifyError(originalError ?? { message });
+  }
+
+  get kind(): ErrorDetail['kind'] {
+    return this.detail.kind;
   }
 }
 
@@ -114,45 +386,257 @@ export class AvailabilityError extends FoundationModelsError {
     status: AvailabilityResult['status'],
     message: string
   ) {
-    super(message, 'AVAILABILITY_ERROR');
+    super(message, 'AVAILABILITY_ERROR', undefined, { kind: 'modelUnavailable', status });
     this.name = 'AvailabilityError';
     this.status = status;
   }
 }
 
+export class CancelledError extends FoundationModelsError {
+  public requestId?: string;
+
+  constructor(requestId?: string) {
+    super('Generation was cancelled', 'CANCELLED', undefined, { kind: 'cancelled' });
+    this.name = 'CancelledError';
+    this.requestId = requestId;
+  }
+}
+
 // MARK: - Plugin registration
-const FoundationModels = registerPlugin<FoundationModelsPlugin>('FoundationModels');
+const FoundationModels = registerPlugin<FoundationModelsPlugin>('FoundationModels', {
+  web: () => import('./foundation.models.web').then(m => new m.FoundationModelsWeb())
+});
+
+export const nativeProvider: LanguageModelProvider = FoundationModels;
+
+// Sentinel chunks the plugin sends over `streamingUpdate`
+const STREAM_COMPLETE = '[STREAM_COMPLETE]';
+const STREAM_ERROR = '[STREAM_ERROR]';
+// Limits on chunks kept for streams whose listener is not set yet
+const MAX_BUFFERED_STREAMS = 16;
+const MAX_BUFFERED_CHUNKS = 512;
+
+let requestCounter = 0;
+const createRequestId = (): string => {
+  requestCounter++;
+  return `req_${Date.now()}_${requestCounter}`;
+};
+
+// Resolves after `ms`, rejecting early with a CancelledError when `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new CancelledError());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new CancelledError());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Positions of the prompts in a session history, one per turn
+const promptIndices = (history: TranscriptEntry[]): number[] =>
+  history.flatMap((entry, index) => entry.type === 'prompt' ? [index] : []);
+
+// What a compaction replaces, measured before the summary request so it can be applied afterwards
+interface CompactionPlan {
+  context: SessionContext;
+  turnStarts: number[];
+  retainedTurns: number;
+  summarized: TranscriptEntry[];
+}
+
+// --- Tool Call Bridge (JS side) ---
+type ScheduledRequestOptions = RequestOptions & { sessionId?: string };
+
+interface JsTool {
+  name: string;
+  handler: ToolHandler;
+  timeoutMs?: number;
+  requiresApproval?: (payload: string) => boolean;
+}
+
+interface PendingToolCall {
+  requestId?: string;
+  controller: AbortController;
+}
+
+interface PendingApproval {
+  request: ToolApprovalRequest;
+  resolve: (decision: ToolApprovalDecision) => void;
+}
+
+const jsToolHandlers: Map<string, JsTool> = new Map();
+
+const jsTool = (name: string, handler: ToolHandler, options: ToolOptions): JsTool => {
+  const { timeoutMs, requiresApproval } = options;
+  return {
+    name,
+    handler,
+    timeoutMs,
+    requiresApproval: typeof requiresApproval === 'function'
+      ? requiresApproval
+      : requiresApproval ? () => true : undefined
+  };
+};
 
 // MARK: - Service class
 export class FoundationModelsService {
   private static instance: FoundationModelsService;
-  private activeSessions: Map<string, ConversationSession> = new Map();
+  private sessions = new SessionManager();
   private streamingListeners: Map<string, (chunk: StreamingChunk) => void> = new Map();
+  private earlyChunks: Map<string, StreamingChunk[]> = new Map();
+  private routing: ProviderRoutingRules = { primary: { name: 'native', provider: FoundationModels } };
+  private attachedProviders: Set<LanguageModelProvider> = new Set();
+  private compactions: Map<string, Promise<void>> = new Map();
+  private toolCallProviders: Map<string, LanguageModelProvider> = new Map();
+  private registeredTools: Map<string, ToolRegistration> = new Map();
+  private pendingToolCalls: Map<string, PendingToolCall> = new Map();
+  private pendingApprovals: Map<string, PendingApproval> = new Map();
+  private toolPolicy: ToolPolicy = { ...defaultToolPolicy };
+  private retryPolicy: RetryPolicy = { ...defaultRetryPolicy };
+  private events = new TypedEventEmitter<FoundationModelsEvents>();
+  private scheduler = new RequestScheduler({ onChange: state => this.events.emit('queue', state) });
+  private streamTimeouts = { ...defaultStreamTimeouts };
+  private transcripts = new TranscriptStore(event => {
+    this.events.emit('transcript', event);
+    this.events.emit('contextBudget', this.measureContext(event.sessionId, event.transcript));
+  });
+  private budgetPolicy: ContextBudgetPolicy = { ...defaultContextBudgetPolicy };
 
   private constructor() {
+    this.attachProvider(FoundationModels);
+  }
+
+  public static getInstance(): FoundationModelsService {
+    if (!FoundationModelsService.instance) {
+      FoundationModelsService.instance = new FoundationModelsService();
+    }
+    return FoundationModelsService.instance;
+  }
+
+  // MARK: - Provider routing
+  async configureProviders(rules: ProviderRoutingRules): Promise<void> {
+    this.routing = rules;
+
+    const providers = [rules.primary.provider, rules.fallback?.provider]
+      .filter((provider): provider is LanguageModelProvider => !!provider);
+    for (const provider of providers) {
+      this.attachProvider(provider);
+      // Replay tools registered before this provider was configured
+      for (const tool of this.registeredTools.values()) {
+        await provider.registerTool(tool);
+      }
+    }
+  }
+
+  async getActiveProviderName(): Promise<string | null> {
+    try {
+      return (await this.resolveRoute()).route.name;
+    } catch {
+      return null;
+    }
+  }
+
+  private attachProvider(provider: LanguageModelProvider): void {
+    if (this.attachedProviders.has(provider)) return;
+    this.attachedProviders.add(provider);
+
     // Listen for streaming updates
-    FoundationModels.addListener('streamingUpdate', (data: StreamingChunk) => {
-      console.log('Received streaming chunk:', data);
+    provider.addListener('streamingUpdate', (data: StreamingChunk) => {
       const listener = this.streamingListeners.get(data.callId);
       if (listener) {
         listener(data);
       } else {
-        console.warn('No listener found for callId:', data.callId);
+        this.bufferEarlyChunk(data);
       }
     });
+
+    // Tool calls are answered on the provider that issued them
+    provider.addListener('toolCall', (data: ToolCallEvent) => {
+      this.handleToolCall(provider, data).catch(error => {
+        // The native continuation waits for a result, so even a failure here has to answer it
+        console.error('Tool call failed:', data.toolId, error);
+        const output = toolErrorOutput('handlerFailed', (error as Error)?.message ?? String(error));
+        this.toolCallProviders.set(data.callId, provider);
+        this.sendToolResult({ callId: data.callId, output }).catch(sendError => {
+          console.error('Failed to send tool error result:', data.callId, sendError);
+        });
+      });
+    });
   }
 
-  public static getInstance(): FoundationModelsService {
-    if (!FoundationModelsService.instance) {
-      FoundationModelsService.instance = new FoundationModelsService();
+  // MARK: - Stream listeners
+  /**
+   * Chunks can arrive before `generateStreaming` resolves with the streamId they belong to,
+   * so chunks for unknown streams are kept until a listener for that stream is set.
+   */
+  private bufferEarlyChunk(data: StreamingChunk): void {
+    let buffered = this.earlyChunks.get(data.callId);
+    if (!buffered) {
+      // Streams nobody listens to, e.g. ones cancelled while starting, must not pile up
+      if (this.earlyChunks.size >= MAX_BUFFERED_STREAMS) {
+        const oldest = this.earlyChunks.keys().next().value;
+        if (oldest !== undefined) this.earlyChunks.delete(oldest);
+      }
+      buffered = [];
+      this.earlyChunks.set(data.callId, buffered);
+    }
+    if (buffered.length < MAX_BUFFERED_CHUNKS) {
+      buffered.push(data);
+    } else {
+      console.warn('No listener found for callId:', data.callId);
     }
-    return FoundationModelsService.instance;
+  }
+
+  // Sets the listener for a stream and replays the chunks that arrived before it
+  private listenToStream(streamId: string, listener: (chunk: StreamingChunk) => void): void {
+    const buffered = this.earlyChunks.get(streamId) ?? [];
+    this.earlyChunks.delete(streamId);
+    this.streamingListeners.set(streamId, listener);
+    for (const chunk of buffered) {
+      // The listener removes itself on the completion and error sentinels
+      if (this.streamingListeners.get(streamId) !== listener) break;
+      listener(chunk);
+    }
+  }
+
+  // Picks the provider for the next request based on the primary provider's availability
+  private async resolveRoute(): Promise<{ route: ProviderRoute; availability: AvailabilityResult }> {
+    const { primary, fallback } = this.routing;
+    const fallbackOn = this.routing.fallbackOn ?? defaultFallbackStatuses;
+
+    const availability = await primary.provider.checkAvailability();
+    if (availability.available || !fallback || !fallbackOn.includes(availability.status)) {
+      return { route: primary, availability };
+    }
+
+    return { route: fallback, availability: await fallback.provider.checkAvailability() };
+  }
+
+  private async resolveProvider(): Promise<LanguageModelProvider> {
+    const { route, availability } = await this.resolveRoute().catch(error => {
+      throw new FoundationModelsError(
+        'Failed to check availability',
+        'AVAILABILITY_CHECK_FAILED',
+        error as Error
+      );
+    });
+    if (!availability.available) {
+      throw new AvailabilityError(availability.status, availability.reason);
+    }
+    return route.provider;
   }
 
   // MARK: - Availability checking
   async checkAvailability(): Promise<AvailabilityResult> {
     try {
-      return await FoundationModels.checkAvailability();
+      return (await this.resolveRoute()).availability;
     } catch (error) {
       throw new FoundationModelsError(
         'Failed to check availability',
@@ -163,57 +647,197 @@ export class FoundationModelsService {
   }
 
   async ensureAvailable(): Promise<void> {
-    const availability = await this.checkAvailability();
-    if (!availability.available) {
-      throw new AvailabilityError(availability.status, availability.reason);
+    await this.resolveProvider();
+  }
+
+  // MARK: - Retry policy
+  configureRetry(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  getRetryPolicy(): RetryPolicy {
+    return { ...this.retryPolicy };
+  }
+
+  private isRetryable(error: unknown): error is FoundationModelsError {
+    if (!(error instanceof FoundationModelsError)) return false;
+
+    const { detail } = error;
+    if (!this.retryPolicy.retryOn.includes(detail.kind)) return false;
+    // Only a model that is still downloading will become available by waiting
+    return detail.kind !== 'modelUnavailable' || !detail.status || detail.status === 'notReady';
+  }
+
+  private retryDelay(attempt: number): number {
+    const { initialDelayMs, maxDelayMs, backoffFactor, jitter } = this.retryPolicy;
+    const base = Math.min(maxDelayMs, initialDelayMs * backoffFactor ** (attempt - 1));
+    const spread = base * jitter;
+    return Math.max(0, Math.round(base - spread + Math.random() * spread * 2));
+  }
+
+  // Re-runs `run` on transient failures, re-checking availability before each new attempt
+  private async withRetry<T>(
+    operation: string,
+    options: ScheduledRequestOptions,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const { maxAttempts } = this.retryPolicy;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.schedule(options, run);
+      } catch (error) {
+        if (attempt >= maxAttempts || !this.isRetryable(error)) throw error;
+
+        const delayMs = this.retryDelay(attempt);
+        this.events.emit('retry', {
+          operation,
+          attempt: attempt + 1,
+          maxAttempts,
+          delayMs,
+          error
+        });
+        await sleep(delayMs, options.signal);
+
+        const availability = await this.checkAvailability();
+        if (!availability.available && availability.status !== 'notReady') {
+          throw new AvailabilityError(availability.status, availability.reason);
+        }
+      }
+    }
+  }
+
+  // MARK: - Request scheduling
+  configureScheduler(options: Partial<SchedulerOptions>): void {
+    const { maxConcurrent, streamIdleTimeoutMs, streamTimeoutMs } = options;
+    if (maxConcurrent !== undefined) {
+      this.scheduler.setMaxConcurrent(maxConcurrent);
+    }
+    if (streamIdleTimeoutMs !== undefined) this.streamTimeouts.streamIdleTimeoutMs = streamIdleTimeoutMs;
+    if (streamTimeoutMs !== undefined) this.streamTimeouts.streamTimeoutMs = streamTimeoutMs;
+  }
+
+  getQueueState(): QueueState {
+    return this.scheduler.getState();
+  }
+
+  // Requests waiting to start, optionally only those queued behind a session's current turn
+  getQueueLength(sessionId?: string): number {
+    return this.scheduler.getQueueLength(sessionId);
+  }
+
+  // Each attempt holds a slot only while it runs, so retry backoff never blocks other requests
+  private schedule<T>(options: ScheduledRequestOptions, run: () => Promise<T>): Promise<T> {
+    const { signal, priority, sessionId } = options;
+    return this.scheduler.schedule(run, { key: sessionId, priority, signal }).catch(error => {
+      // Aborted while still queued
+      if (signal?.aborted && error === signal.reason) throw new CancelledError();
+      throw error;
+    });
+  }
+
+  // MARK: - Events
+  on<K extends keyof FoundationModelsEvents>(
+    event: K,
+    listener: (payload: FoundationModelsEvents[K]) => void
+  ): () => void {
+    return this.events.on(event, listener);
+  }
+
+  // MARK: - Cancellation
+  // Runs a provider request under a fresh requestId, cancelling it natively when `signal` aborts
+  private async runCancellable<T>(
+    provider: LanguageModelProvider,
+    signal: AbortSignal | undefined,
+    run: (requestId: string) => Promise<T>
+  ): Promise<T> {
+    const requestId = createRequestId();
+    if (!signal) {
+      return run(requestId);
+    }
+    if (signal.aborted) {
+      throw new CancelledError(requestId);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.cancelRequest(provider, requestId);
+        reject(new CancelledError(requestId));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      run(requestId)
+        .then(resolve, reject)
+        .finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private cancelRequest(provider: LanguageModelProvider, requestId: string): void {
+    provider.cancelGeneration({ requestId }).catch(error => {
+      console.warn('Failed to cancel generation:', requestId, error);
+    });
+
+    for (const call of this.pendingToolCalls.values()) {
+      if (call.requestId === requestId) call.controller.abort();
     }
   }
 
   // MARK: - Basic text generation
   async generateText(
     prompt: string, 
-    options: { maxTokens?: number; temperature?: number } = {}
+    options: { maxTokens?: number; temperature?: number } & RequestOptions = {}
   ): Promise<string> {
-    await this.ensureAvailable();
-
-    try {
-      const result = await FoundationModels.generateText({
-        prompt,
-        maxTokens: options.maxTokens ?? 1000,
-        temperature: options.temperature ?? 0.7
-      });
-      return result.text;
-    } catch (error) {
-      throw new FoundationModelsError(
-        'Text generation failed',
-        'GENERATION_FAILED',
-        error as Error
-      );
-    }
+    return this.withRetry('generateText', options, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const result = await this.runCancellable(provider, options.signal, requestId =>
+          provider.generateText({
+            prompt,
+            maxTokens: options.maxTokens ?? 1000,
+            temperature: options.temperature ?? 0.7,
+            requestId,
+            tools: options.tools
+          })
+        );
+        return result.text;
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        throw new FoundationModelsError(
+          'Text generation failed',
+          'GENERATION_FAILED',
+          error as Error
+        );
+      }
+    });
   }
 
   // MARK: - Guided generation
-  async generateSummary(prompt: string): Promise<any> {
-    await this.ensureAvailable();
-
-    try {
-      const result = await FoundationModels.generateSummary({ prompt });
-      return JSON.parse(result.json);
-    } catch (error) {
-      throw new FoundationModelsError(
-        'Summary generation failed',
-        'SUMMARY_FAILED',
-        error as Error
-      );
-    }
+  async generateSummary(prompt: string, options: RequestOptions = {}): Promise<any> {
+    return this.withRetry('generateSummary', options, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const result = await this.runCancellable(provider, options.signal, requestId =>
+          provider.generateSummary({ prompt, requestId })
+        );
+        return JSON.parse(result.json);
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        throw new FoundationModelsError(
+          'Summary generation failed',
+          'SUMMARY_FAILED',
+          error as Error
+        );
+      }
+    });
   }
 
   // MARK: - Tool calling
   async echo(message: string): Promise<string> {
-    await this.ensureAvailable();
+    const provider = await this.resolveProvider();
 
     try {
-      const result = await FoundationModels.echo({ message });
+      const result = await provider.echo({ message });
       return result.reply;
     } catch (error) {
       throw new FoundationModelsError(
@@ -225,67 +849,94 @@ export class FoundationModelsService {
   }
 
   // MARK: - Dynamic schema generation
-  async generateWithSchema(prompt: string, schema: object): Promise<any> {
-    await this.ensureAvailable();
-
-    try {
-      const schemaString = JSON.stringify(schema);
-      const result = await FoundationModels.generateDynamic({ prompt, schema: schemaString });
-      return JSON.parse(result.json);
-    } catch (error) {
-      throw new FoundationModelsError(
-        'Schema-based generation failed',
-        'SCHEMA_GENERATION_FAILED',
-        error as Error
-      );
-    }
+  async generateWithSchema(prompt: string, schema: object, options: RequestOptions = {}): Promise<any> {
+    return this.withRetry('generateWithSchema', options, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const schemaString = JSON.stringify(schema);
+        const result = await this.runCancellable(provider, options.signal, requestId =>
+          provider.generateDynamic({ prompt, schema: schemaString, requestId })
+        );
+        return JSON.parse(result.json);
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        throw new FoundationModelsError(
+          'Schema-based generation failed',
+          'SCHEMA_GENERATION_FAILED',
+          error as Error
+        );
+      }
+    });
   }
 
   // MARK: - Instructions-based generation
-  async generateWithInstructions(prompt: string, instructions: string): Promise<string> {
-    await this.ensureAvailable();
-
-    try {
-      const result = await FoundationModels.generateWithInstructions({ prompt, instructions });
-      return result.text;
-    } catch (error) {
-      throw new FoundationModelsError(
-        'Instruction-based generation failed',
-        'INSTRUCTION_GENERATION_FAILED',
-        error as Error
-      );
-    }
+  async generateWithInstructions(
+    prompt: string,
+    instructions: string,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    return this.withRetry('generateWithInstructions', options, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const result = await this.runCancellable(provider, options.signal, requestId =>
+          provider.generateWithInstructions({ prompt, instructions, requestId, tools: options.tools })
+        );
+        return result.text;
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        throw new FoundationModelsError(
+          'Instruction-based generation failed',
+          'INSTRUCTION_GENERATION_FAILED',
+          error as Error
+        );
+      }
+    });
   }
 
   // MARK: - Streaming generation
+  /**
+   * Callback-based streaming that forwards the '[STREAM_COMPLETE]' and '[STREAM_ERROR]'
+   * sentinels to `onChunk`.
+   * @deprecated Use `stream()`, which reports completion and errors as typed events.
+   */
   async generateStreaming(
     prompt: string,
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    options: RequestOptions = {}
   ): Promise<string> {
-    await this.ensureAvailable();
+    const provider = await this.resolveProvider();
+    const { signal } = options;
 
     try {
-      console.log('Starting streaming for prompt:', prompt);
-      const result = await FoundationModels.generateStreaming({ prompt });
-      const streamId = result.streamId;
-      console.log('Got streamId:', streamId);
+      const result = await this.runCancellable(provider, signal, requestId =>
+        provider.generateStreaming({ prompt, requestId, tools: options.tools })
+          .then(({ streamId }) => ({ streamId, requestId }))
+      );
+      const { streamId, requestId } = result;
+
+      // The stream outlives the initial call, so abort has to stop it separately
+      const onAbort = () => {
+        this.streamingListeners.delete(streamId);
+        this.cancelRequest(provider, requestId);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       // Set up listener for this stream
-      this.streamingListeners.set(streamId, (data: StreamingChunk) => {
-        console.log('Processing chunk:', data.chunk);
-        
+      this.listenToStream(streamId, (data: StreamingChunk) => {
         // Handle completion signals
-        if (data.chunk === '[STREAM_COMPLETE]') {
-          console.log('Stream completed');
+        if (data.chunk === STREAM_COMPLETE) {
           this.streamingListeners.delete(streamId);
-          onChunk('[STREAM_COMPLETE]'); // Notify the UI
+          signal?.removeEventListener('abort', onAbort);
+          onChunk(STREAM_COMPLETE); // Notify the UI
           return;
         }
         
-        if (data.chunk === '[STREAM_ERROR]') {
-          console.log('Stream error');
+        if (data.chunk === STREAM_ERROR) {
           this.streamingListeners.delete(streamId);
-          onChunk('[STREAM_ERROR]'); // Notify the UI
+          signal?.removeEventListener('abort', onAbort);
+          onChunk(STREAM_ERROR); // Notify the UI
           return;
         }
         
@@ -295,6 +946,7 @@ export class FoundationModelsService {
 
       return streamId;
     } catch (error) {
+      if (error instanceof CancelledError) throw error;
       throw new FoundationModelsError(
         'Streaming generation failed',
         'STREAMING_FAILED',
@@ -303,75 +955,507 @@ export class FoundationModelsService {
     }
   }
 
+  // MARK: - Async-iterator streaming
+  stream(
+    prompt: string,
+    options: { maxTokens?: number; temperature?: number } & RequestOptions = {}
+  ): AsyncIterable<StreamEvent> {
+    const { signal } = options;
+    const startedAt = Date.now();
+    const requestId = createRequestId();
+    let firstChunkAt: number | undefined;
+    let text = '';
+    let provider: LanguageModelProvider | undefined;
+    let streamId: string | undefined;
+    let finished = false;
+    let releaseSlot: () => void = () => {};
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+    let deadlineTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const finish = () => {
+      finished = true;
+      clearTimeout(idleTimer);
+      clearTimeout(deadlineTimer);
+      if (streamId) this.streamingListeners.delete(streamId);
+      signal?.removeEventListener('abort', onAbort);
+      queue.close();
+      releaseSlot();
+    };
+
+    const fail = (error: FoundationModelsError) => {
+      if (finished) return;
+      queue.push({ type: 'error', error, text });
+      finish();
+    };
+
+    const stop = () => {
+      if (provider) this.cancelRequest(provider, requestId);
+    };
+
+    const onAbort = () => {
+      if (finished) return;
+      stop();
+      fail(new CancelledError(requestId));
+    };
+
+    // Breaking out of `for await` cancels the underlying generation
+    const queue = new AsyncEventQueue<StreamEvent>(() => {
+      if (finished) return;
+      stop();
+      finish();
+    });
+
+    // Watchdog for streams whose end never arrives, e.g. a lost sentinel or a hung native stream
+    const timeOut = (message: string) => () => {
+      if (finished) return;
+      stop();
+      fail(new FoundationModelsError(message, 'STREAM_TIMEOUT'));
+    };
+    const { streamIdleTimeoutMs, streamTimeoutMs } = this.streamTimeouts;
+    const onIdle = timeOut(`The stream sent nothing for ${streamIdleTimeoutMs} ms`);
+    const resetIdleTimer = () => {
+      clearTimeout(idleTimer);
+      idleTimer = setTimeout(() => {
+        // A tool call, e.g. one waiting for approval, pauses the stream without it being stuck
+        const waitingForTool = Array.from(this.pendingToolCalls.values()).some(call => call.requestId === requestId);
+        if (waitingForTool) resetIdleTimer();
+        else onIdle();
+      }, streamIdleTimeoutMs);
+    };
+
+    const toStreamError = (error: unknown): FoundationModelsError => error instanceof FoundationModelsError
+      ? error
+      : new FoundationModelsError('Streaming generation failed', 'STREAMING_FAILED', error as Error);
+
+    const handleChunk = (data: StreamingChunk) => {
+      resetIdleTimer();
+      if (data.chunk === STREAM_COMPLETE) {
+        const completedAt = Date.now();
+        queue.push({
+          type: 'done',
+          text,
+          timing: {
+            startedAt,
+            firstChunkAt,
+            completedAt,
+            timeToFirstChunkMs: firstChunkAt !== undefined ? firstChunkAt - startedAt : undefined,
+            durationMs: completedAt - startedAt
+          }
+        });
+        finish();
+        return;
+      }
+
+      if (data.chunk === STREAM_ERROR) {
+        fail(new FoundationModelsError(
+          data.error ?? 'Streaming generation failed',
+          'STREAMING_FAILED',
+          data.error ? new Error(data.error) : undefined
+        ));
+        return;
+      }
+
+      firstChunkAt ??= Date.now();
+      if (data.isSnapshot) {
+        text = data.chunk;
+        queue.push({ type: 'snapshot', text });
+      } else {
+        text += data.chunk;
+        queue.push({ type: 'delta', text: data.chunk });
+      }
+    };
+
+    const start = async () => {
+      try {
+        if (signal?.aborted) {
+          onAbort();
+          return;
+        }
+        signal?.addEventListener('abort', onAbort, { once: true });
+
+        // The scheduler slot is held until the stream finishes, not just until it starts
+        await this.schedule(options, async () => {
+          if (finished) return;
+          const slotReleased = new Promise<void>(resolve => {
+            releaseSlot = resolve;
+          });
+          resetIdleTimer();
+          deadlineTimer = setTimeout(timeOut(`The stream did not finish within ${streamTimeoutMs} ms`), streamTimeoutMs);
+
+          const begin = async () => {
+            provider = await this.resolveProvider();
+            if (finished) return;
+
+            const { maxTokens, temperature, tools } = options;
+            const result = await provider.generateStreaming({ prompt, maxTokens, temperature, requestId, tools });
+            if (finished) {
+              // Cancelled or timed out while the stream was starting
+              this.earlyChunks.delete(result.streamId);
+              stop();
+              return;
+            }
+            streamId = result.streamId;
+            this.listenToStream(streamId, handleChunk);
+          };
+
+          // Every way the stream ends goes through `finish`, which frees the slot even while `begin` still hangs
+          begin().catch(error => fail(toStreamError(error)));
+          await slotReleased;
+        });
+      } catch (error) {
+        fail(toStreamError(error));
+      }
+    };
+
+    start();
+    return queue;
+  }
+
   // MARK: - Session management for conversations
-  async createConversationSession(instructions?: string): Promise<ConversationSession> {
-    await this.ensureAvailable();
+  // The first native sessionId becomes the conversation's sessionId for its whole lifetime
+  async createConversationSession(
+    instructions?: string,
+    options: SessionOptions = {}
+  ): Promise<ConversationSession> {
+    return this.withRetry('createConversationSession', {}, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const result = await provider.createSession({ instructions, tools: options.tools });
+        const session: ConversationSession = {
+          sessionId: result.sessionId,
+          name: options.name,
+          tools: options.tools,
+          isActive: true,
+          messageCount: 0
+        };
+      
+        this.sessions.add(session, provider, result.sessionId);
+        this.transcripts.start(
+          result.sessionId,
+          instructions ? [{ type: 'instructions', text: instructions, timestamp: Date.now() }] : []
+        );
+        this.evictIdleSessions();
+        return session;
+      } catch (error) {
+        throw new FoundationModelsError(
+          'Session creation failed',
+          'SESSION_CREATION_FAILED',
+          error as Error
+        );
+      }
+    });
+  }
 
-    try {
-      const result = await FoundationModels.createSession({ instructions });
-      const session: ConversationSession = {
-        sessionId: result.sessionId,
-        isActive: true,
-        messageCount: 0
-      };
+  /**
+   * Recreates a session from a saved transcript, e.g. one persisted before the app was killed.
+   * The new session gets the original instructions and is seeded with the earlier turns,
+   * or with the latest summary and the turns since if the conversation was compacted.
+   */
+  async restoreConversationSession(
+    transcript: TranscriptEntry[],
+    options: SessionOptions = {}
+  ): Promise<ConversationSession> {
+    const context = sessionContext(transcript);
+
+    return this.withRetry('restoreConversationSession', {}, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const result = await provider.createSession({
+          instructions: composeInstructions(context),
+          history: context.history,
+          tools: options.tools
+        });
+        const session: ConversationSession = {
+          sessionId: result.sessionId,
+          name: options.name,
+          tools: options.tools,
+          isActive: true,
+          messageCount: transcriptTurns(transcript).length
+        };
+
+        this.sessions.add(session, provider, result.sessionId);
+        this.transcripts.start(result.sessionId, transcript);
+        this.evictIdleSessions();
+        return session;
+      } catch (error) {
+        throw new FoundationModelsError(
+          'Session restore failed',
+          'SESSION_RESTORE_FAILED',
+          error as Error
+        );
+      }
+    });
+  }
+
+  async continueConversation(
+    sessionId: string,
+    prompt: string,
+    options: RequestOptions = {}
+  ): Promise<string> {
+    // Compaction runs its own requests, so it has to finish before this turn takes a scheduler slot
+    await this.compactIfNeeded(sessionId, prompt, options);
+
+    return this.withRetry('continueConversation', { ...options, sessionId }, async () => {
+      await this.ensureAvailable();
+
+      const managed = this.requireSession(sessionId);
+      const { session, provider } = managed;
+      const nativeSessionId = await this.ensureLive(managed);
+
+      this.transcripts.beginTurn(sessionId, prompt);
+      try {
+        const result = await this.runCancellable(provider, options.signal, requestId =>
+          provider.continueConversation({ sessionId: nativeSessionId, prompt, requestId })
+        );
       
-      this.activeSessions.set(result.sessionId, session);
-      return session;
-    } catch (error) {
-      throw new FoundationModelsError(
-        'Session creation failed',
-        'SESSION_CREATION_FAILED',
-        error as Error
-      );
+        // Update session
+        session.messageCount++;
+        this.transcripts.commitTurn(sessionId, result.text);
+      
+        return result.text;
+      } catch (error) {
+        this.transcripts.discardTurn(sessionId);
+        if (error instanceof CancelledError) throw error;
+        throw new FoundationModelsError(
+          'Conversation continuation failed',
+          'CONVERSATION_FAILED',
+          error as Error
+        );
+      }
+    });
+  }
+
+  async endConversationSession(sessionId: string): Promise<void> {
+    const managed = this.sessions.delete(sessionId);
+    if (managed) {
+      managed.session.isActive = false;
+      this.releaseNativeSession(managed);
     }
+    this.transcripts.delete(sessionId);
   }
 
-  async continueConversation(sessionId: string, prompt: string): Promise<string> {
-    await this.ensureAvailable();
+  // MARK: - Session limits and eviction
+  configureSessions(limits: Partial<SessionLimits>): void {
+    if (limits.maxLiveSessions !== undefined) {
+      this.sessions.setMaxLiveSessions(limits.maxLiveSessions);
+      this.evictIdleSessions();
+    }
+  }
 
-    const session = this.activeSessions.get(sessionId);
-    if (!session || !session.isActive) {
+  // Every conversation, most recently used first, with native details for live sessions
+  async listSessions(): Promise<SessionListing[]> {
+    return Promise.all(this.sessions.list().map(async managed => {
+      const { session, lastUsedAt } = managed;
+      const info = await this.readSessionInfo(managed).catch((): SessionInfo => ({
+        sessionId: session.sessionId,
+        isResponding: this.transcripts.hasPendingTurn(session.sessionId),
+        messageCount: session.messageCount
+      }));
+      return {
+        ...info,
+        name: session.name,
+        isLive: managed.nativeSessionId !== undefined,
+        lastUsedAt,
+        contextBudget: this.getContextBudget(session.sessionId)
+      };
+    }));
+  }
+
+  private requireSession(sessionId: string): ManagedSession {
+    const managed = this.sessions.get(sessionId);
+    if (!managed || !managed.session.isActive) {
       throw new FoundationModelsError(
         'Session not found or inactive',
         'SESSION_NOT_FOUND'
       );
     }
+    return managed;
+  }
 
-    try {
-      const result = await FoundationModels.continueConversation({ sessionId, prompt });
-      
-      // Update session
-      session.messageCount++;
-      this.activeSessions.set(sessionId, session);
-      
-      return result.text;
-    } catch (error) {
+  // Returns the native sessionId, rebuilding an evicted session from its transcript first
+  private async ensureLive(managed: ManagedSession): Promise<string> {
+    const { session, provider } = managed;
+    this.sessions.touch(session.sessionId);
+
+    if (managed.nativeSessionId === undefined) {
+      const context = sessionContext(this.getTranscript(session.sessionId));
+      try {
+        const result = await provider.createSession({
+          instructions: composeInstructions(context),
+          history: context.history,
+          tools: session.tools
+        });
+        managed.nativeSessionId = result.sessionId;
+      } catch (error) {
+        throw new FoundationModelsError(
+          'Session rebuild failed',
+          'SESSION_RESTORE_FAILED',
+          error as Error
+        );
+      }
+    }
+
+    this.evictIdleSessions();
+    return managed.nativeSessionId;
+  }
+
+  private evictIdleSessions(): void {
+    const candidates = this.sessions.evictionCandidates(sessionId =>
+      this.transcripts.hasPendingTurn(sessionId) || this.scheduler.getQueueLength(sessionId) > 0
+    );
+    for (const managed of candidates) {
+      this.releaseNativeSession(managed);
+    }
+  }
+
+  private releaseNativeSession(managed: ManagedSession): void {
+    const { nativeSessionId, provider } = managed;
+    if (nativeSessionId === undefined) return;
+
+    managed.nativeSessionId = undefined;
+    provider.deleteSession({ sessionId: nativeSessionId }).catch(error => {
+      console.warn('Failed to release native session:', nativeSessionId, error);
+    });
+  }
+
+  getTranscript(sessionId: string): TranscriptEntry[] {
+    const transcript = this.transcripts.get(sessionId);
+    if (!transcript) {
       throw new FoundationModelsError(
-        'Conversation continuation failed',
-        'CONVERSATION_FAILED',
-        error as Error
+        'Session not found or inactive',
+        'SESSION_NOT_FOUND'
       );
     }
+    return transcript;
   }
 
-  async endConversationSession(sessionId: string): Promise<void> {
-    const session = this.activeSessions.get(sessionId);
-    if (session) {
-      session.isActive = false;
-      this.activeSessions.delete(sessionId);
+  // MARK: - Context budget
+  configureContextBudget(policy: Partial<ContextBudgetPolicy>): void {
+    this.budgetPolicy = { ...this.budgetPolicy, ...policy };
+  }
+
+  getContextBudgetPolicy(): ContextBudgetPolicy {
+    return { ...this.budgetPolicy };
+  }
+
+  // Estimated share of the context window the session's native counterpart currently uses
+  getContextBudget(sessionId: string): ContextBudget {
+    return this.measureContext(sessionId, this.getTranscript(sessionId));
+  }
+
+  private measureContext(sessionId: string, transcript: TranscriptEntry[]): ContextBudget {
+    const usedTokens = estimateContextTokens(sessionContext(transcript));
+    const { maxTokens } = this.budgetPolicy;
+    return { sessionId, usedTokens, maxTokens, ratio: usedTokens / maxTokens };
+  }
+
+  private async compactIfNeeded(sessionId: string, prompt: string, options: RequestOptions): Promise<void> {
+    // Concurrent turns on one session share a single compaction
+    const running = this.compactions.get(sessionId);
+    if (running) {
+      await running;
+      return;
     }
+
+    const { autoCompact, compactAt, maxTokens } = this.budgetPolicy;
+    const transcript = this.transcripts.get(sessionId);
+    if (!autoCompact || !transcript) return;
+
+    const usedTokens = estimateContextTokens(sessionContext(transcript)) + estimateTokens(prompt);
+    if (usedTokens < compactAt * maxTokens) return;
+
+    const compaction = this.compactConversation(sessionId, options)
+      .catch(error => {
+        if (error instanceof CancelledError) throw error;
+        // Every later turn would retry the same summary and fail, so the oldest turns go without one
+        console.warn('Compaction failed, dropping the oldest turns instead:', sessionId, error);
+        return this.dropOldestTurns(sessionId, options);
+      })
+      .finally(() => {
+        this.compactions.delete(sessionId);
+      });
+    this.compactions.set(sessionId, compaction);
+    await compaction;
+  }
+
+  /**
+   * Summarizes all but the most recent turns with `generateSummary` and releases the native
+   * session; the next turn rebuilds it from the summary. The public sessionId stays the same.
+   * The summary is applied in the session's turn order, so a turn running meanwhile finishes
+   * on the old native session and is kept along with the retained turns.
+   */
+  async compactConversation(sessionId: string, options: RequestOptions = {}): Promise<void> {
+    const plan = this.planCompaction(sessionId);
+    if (!plan) return;
+
+    const result = await this.generateSummary(compactionPrompt(plan.context.summary, plan.summarized), options);
+    const summary = typeof result?.summary === 'string' ? result.summary : JSON.stringify(result);
+    await this.applyCompaction(sessionId, plan, summary, options);
+  }
+
+  // Fallback when the summary fails: the turns compaction would summarize are dropped, the earlier summary kept
+  private async dropOldestTurns(sessionId: string, options: RequestOptions): Promise<void> {
+    const plan = this.planCompaction(sessionId);
+    if (!plan) return;
+    await this.applyCompaction(sessionId, plan, plan.context.summary ?? '', options, true);
+  }
+
+  private planCompaction(sessionId: string): CompactionPlan | undefined {
+    this.requireSession(sessionId);
+    const context = sessionContext(this.getTranscript(sessionId));
+    const turnStarts = promptIndices(context.history);
+    if (turnStarts.length === 0) return undefined;
+
+    // Always summarize at least one turn, even when there are fewer than `retainTurns`
+    const retainedTurns = Math.min(this.budgetPolicy.retainTurns, turnStarts.length - 1);
+    const retainedStart = retainedTurns > 0 ? turnStarts[turnStarts.length - retainedTurns] : context.history.length;
+    return { context, turnStarts, retainedTurns, summarized: context.history.slice(0, retainedStart) };
+  }
+
+  private async applyCompaction(
+    sessionId: string,
+    { context, turnStarts, retainedTurns }: CompactionPlan,
+    summary: string,
+    options: RequestOptions,
+    dropped = false
+  ): Promise<void> {
+    // The summary request took its own slot, so applying it can wait for the session's turn without deadlocking
+    await this.schedule({ ...options, sessionId }, async () => {
+      const managed = this.sessions.get(sessionId);
+      const transcript = this.transcripts.get(sessionId);
+      if (!managed?.session.isActive || !transcript) return;
+
+      const current = sessionContext(transcript);
+      // Another compaction got in first; this summary no longer matches the history
+      if (current.summary !== context.summary) return;
+      const addedTurns = promptIndices(current.history).length - turnStarts.length;
+
+      this.transcripts.recordCompaction(sessionId, summary, retainedTurns + addedTurns);
+      this.releaseNativeSession(managed);
+      this.events.emit('compaction', {
+        sessionId,
+        tokensBefore: estimateContextTokens(current),
+        tokensAfter: estimateContextTokens(sessionContext(this.getTranscript(sessionId))),
+        summarizedTurns: turnStarts.length - retainedTurns,
+        ...(dropped ? { dropped } : {})
+      });
+    });
   }
 
   getActiveSessionIds(): string[] {
-    return Array.from(this.activeSessions.keys()).filter(id => 
-      this.activeSessions.get(id)?.isActive
+    return this.sessions.ids().filter(id => 
+      this.sessions.get(id)?.session.isActive
     );
   }
 
   // MARK: - Performance optimization
   async prewarmSession(): Promise<void> {
+    const provider = await this.resolveProvider();
+
     try {
-      await FoundationModels.prewarmSession();
+      await provider.prewarmSession();
     } catch (error) {
       throw new FoundationModelsError(
         'Prewarming failed',
@@ -382,19 +1466,24 @@ export class FoundationModelsService {
   }
 
   // MARK: - Advanced generation with options
-  async generateWithOptions(options: GenerationOptions): Promise<string> {
-    await this.ensureAvailable();
-
-    try {
-      const result = await FoundationModels.generateWithOptions(options);
-      return result.text;
-    } catch (error) {
-      throw new FoundationModelsError(
-        'Advanced generation failed',
-        'ADVANCED_GENERATION_FAILED',
-        error as Error
-      );
-    }
+  async generateWithOptions(options: GenerationOptions, request: RequestOptions = {}): Promise<string> {
+    return this.withRetry('generateWithOptions', request, async () => {
+      const provider = await this.resolveProvider();
+
+      try {
+        const result = await this.runCancellable(provider, request.signal, requestId =>
+          provider.generateWithOptions({ tools: request.tools, ...options, requestId })
+        );
+        return result.text;
+      } catch (error) {
+        if (error instanceof CancelledError) throw error;
+        throw new FoundationModelsError(
+          'Advanced generation failed',
+          'ADVANCED_GENERATION_FAILED',
+          error as Error
+        );
+      }
+    });
   }
 
   // MARK: - Utility methods
@@ -435,20 +1524,22 @@ export class FoundationModelsService {
   // MARK: - Cleanup
   cleanup(): void {
     // End all active sessions
-    for (const sessionId of this.activeSessions.keys()) {
+    for (const sessionId of this.sessions.ids()) {
       this.endConversationSession(sessionId);
     }
     
     // Clear streaming listeners
     this.streamingListeners.clear();
+    this.earlyChunks.clear();
   }
 
   // MARK: - New method for getting session info
   async getSessionInfo(options: { sessionId: string }): Promise<SessionInfo> {
     await this.ensureAvailable();
 
+    const managed = this.requireSession(options.sessionId);
     try {
-      return await FoundationModels.getSessionInfo(options);
+      return await this.readSessionInfo(managed);
     } catch (error) {
       throw new FoundationModelsError(
         'Failed to get session info',
@@ -458,10 +1549,27 @@ export class FoundationModelsService {
     }
   }
 
+  // Evicted sessions are answered from the client-side state without waking the provider
+  private async readSessionInfo(managed: ManagedSession): Promise<SessionInfo> {
+    const { session, provider, nativeSessionId } = managed;
+    if (nativeSessionId === undefined) {
+      return { sessionId: session.sessionId, isResponding: false, messageCount: session.messageCount };
+    }
+    const info = await provider.getSessionInfo({ sessionId: nativeSessionId });
+    return { ...info, sessionId: session.sessionId, messageCount: session.messageCount };
+  }
+
   // MARK: - Dynamic tool registration
-  async registerTool(options: { toolId: string; name: string; description: string }): Promise<{ success: boolean }> {
+  async registerTool(options: ToolRegistration): Promise<{ success: boolean }> {
+    this.registeredTools.set(options.toolId, options);
+
     try {
-      return await FoundationModels.registerTool(options);
+      const { primary, fallback } = this.routing;
+      const result = await primary.provider.registerTool(options);
+      if (fallback) {
+        await fallback.provider.registerTool(options);
+      }
+      return result;
     } catch (error) {
       throw new FoundationModelsError(
         'Failed to register tool',
@@ -471,9 +1579,48 @@ export class FoundationModelsService {
     }
   }
 
+  // Removes the tool from every provider so sessions created afterwards no longer offer it
+  async unregisterTool(toolId: string): Promise<{ success: boolean }> {
+    let result: { success: boolean };
+    try {
+      const { primary, fallback } = this.routing;
+      result = await this.unregisterFromProvider(primary.provider, toolId);
+      if (fallback) {
+        await this.unregisterFromProvider(fallback.provider, toolId);
+      }
+    } catch (error) {
+      // The tool stays registered, matching what the providers still offer
+      throw new FoundationModelsError(
+        'Failed to unregister tool',
+        'TOOL_UNREGISTRATION_FAILED',
+        error as Error
+      );
+    }
+
+    this.registeredTools.delete(toolId);
+    jsToolHandlers.delete(toolId);
+    return result;
+  }
+
+  private async unregisterFromProvider(provider: LanguageModelProvider, toolId: string): Promise<{ success: boolean }> {
+    try {
+      return await provider.unregisterTool({ toolId });
+    } catch (error) {
+      // Plugins without unregisterTool keep offering the tool; its calls then get an unknownTool error
+      if ((error as { code?: unknown } | null)?.code === 'UNIMPLEMENTED') {
+        console.warn('Provider cannot unregister tools, removing only the handler:', toolId);
+        return { success: false };
+      }
+      throw error;
+    }
+  }
+
   async sendToolResult(options: { callId: string; output: string }): Promise<{ success: boolean }> {
+    const provider = this.toolCallProviders.get(options.callId) ?? this.routing.primary.provider;
+    this.toolCallProviders.delete(options.callId);
+
     try {
-      return await FoundationModels.sendToolResult(options);
+      return await provider.sendToolResult(options);
     } catch (error) {
       throw new FoundationModelsError(
         'Failed to send tool result',
@@ -482,35 +1629,250 @@ export class FoundationModelsService {
       );
     }
   }
+
+  private async handleToolCall(provider: LanguageModelProvider, data: ToolCallEvent): Promise<void> {
+    const { toolId, callId, payload } = data;
+    this.toolCallProviders.set(callId, provider);
+
+    const sessionId = this.findToolCallSession(provider);
+    if (sessionId) {
+      this.transcripts.recordToolActivity(sessionId, {
+        type: 'toolCall',
+        callId,
+        toolId,
+        toolName: this.registeredTools.get(toolId)?.name,
+        arguments: payload,
+        timestamp: Date.now()
+      });
+    }
+    const started: ToolCallStartedEvent = {
+      callId,
+      toolId,
+      toolName: this.registeredTools.get(toolId)?.name ?? toolId,
+      arguments: payload,
+      requestId: data.requestId,
+      sessionId,
+      startedAt: Date.now()
+    };
+
+    // The model gets the sanitized output; the tool call events carry what the tool returned
+    const output = sanitizeToolOutput(await this.executeToolCall(started), started);
+    if (sessionId) {
+      this.transcripts.recordToolActivity(sessionId, { type: 'toolOutput', callId, toolId, output, timestamp: Date.now() });
+    }
+    await this.sendToolResult({ callId, output });
+  }
+
+  /**
+   * Runs a registered tool from JS, e.g. for an agent loop that picks tools itself. The call
+   * goes through approval, the timeout policy and the tool call events like one the model
+   * made; the output, a structured tool error included, is returned instead of sent back.
+   */
+  async invokeTool(toolId: string, args: string, options: { signal?: AbortSignal } = {}): Promise<string> {
+    if (options.signal?.aborted) throw new CancelledError();
+
+    return this.executeToolCall({
+      callId: `js_call_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      toolId,
+      toolName: this.registeredTools.get(toolId)?.name ?? toolId,
+      arguments: args,
+      startedAt: Date.now()
+    }, options.signal);
+  }
+
+  // Registered tools, optionally limited to `toolIds`
+  listTools(toolIds?: string[]): ToolRegistration[] {
+    const tools = Array.from(this.registeredTools.values());
+    return toolIds ? tools.filter(tool => toolIds.includes(tool.toolId)) : tools;
+  }
+
+  // Always settles with an output; `signal` cancels the call like cancelling the request that made it
+  private async executeToolCall(started: ToolCallStartedEvent, signal?: AbortSignal): Promise<string> {
+    const { callId, toolId } = started;
+    this.events.emit('toolCallStarted', started);
+
+    // The finished event reports the arguments the tool actually ran with
+    let runPayload = started.arguments;
+    const logs: string[] = [];
+    const finish = (output: string): string => {
+      const finishedAt = Date.now();
+      this.events.emit('toolCallFinished', {
+        ...started,
+        arguments: runPayload,
+        output,
+        durationMs: finishedAt - started.startedAt,
+        error: parseToolError(output),
+        ...(logs.length > 0 ? { logs } : {})
+      });
+      return output;
+    };
+
+    const tool = jsToolHandlers.get(toolId);
+    if (!tool) {
+      console.warn('Tool call for unknown toolId:', toolId);
+      return finish(toolErrorOutput('unknownTool', `No tool with id ${toolId} is registered`));
+    }
+
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    this.pendingToolCalls.set(callId, { requestId: started.requestId, controller });
+    try {
+      let needsApproval: boolean;
+      try {
+        needsApproval = tool.requiresApproval?.(runPayload) ?? false;
+      } catch (error) {
+        // A predicate that cannot judge the arguments must not let the call through unapproved
+        return finish(toolErrorOutput('denied', `Could not check whether ${tool.name} needs approval: ${(error as Error)?.message ?? String(error)}`));
+      }
+      if (needsApproval) {
+        const decision = await this.requestApproval(started, controller.signal);
+        if (controller.signal.aborted) {
+          return finish(toolErrorOutput('cancelled', `The request that called ${tool.name} was cancelled`));
+        }
+        if (!decision.approved) {
+          return finish(toolErrorOutput('denied', decision.reason ?? `The user denied the call to ${tool.name}`));
+        }
+        runPayload = decision.arguments ?? runPayload;
+      }
+      return finish(await this.runToolHandler(tool, runPayload, callId, controller, message => logs.push(message)));
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      this.pendingToolCalls.delete(callId);
+    }
+  }
+
+  // MARK: - Tool approval
+  // Holds the call, and with it the native continuation, until the user decides or the request is cancelled
+  private requestApproval(request: ToolApprovalRequest, signal: AbortSignal): Promise<ToolApprovalDecision> {
+    return new Promise(resolve => {
+      const settle = (decision: ToolApprovalDecision, outcome: ToolApprovalResolvedEvent['outcome']) => {
+        if (!this.pendingApprovals.delete(request.callId)) return;
+        signal.removeEventListener('abort', onAbort);
+        this.events.emit('toolApprovalResolved', { callId: request.callId, outcome });
+        resolve(decision);
+      };
+      const onAbort = () => settle({ approved: false }, 'cancelled');
+
+      this.pendingApprovals.set(request.callId, {
+        request,
+        resolve: decision => settle(decision, decision.approved ? 'approved' : 'denied')
+      });
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.events.emit('toolApprovalRequested', request);
+    });
+  }
+
+  // Returns false when the call is no longer waiting for approval
+  resolveToolApproval(callId: string, decision: ToolApprovalDecision): boolean {
+    const pending = this.pendingApprovals.get(callId);
+    if (!pending) return false;
+
+    pending.resolve(decision);
+    return true;
+  }
+
+  getPendingApprovals(): ToolApprovalRequest[] {
+    return Array.from(this.pendingApprovals.values(), pending => pending.request);
+  }
+
+  // Always settles with an output for the model, so the native continuation never hangs
+  private runToolHandler(
+    tool: JsTool,
+    payload: string,
+    callId: string,
+    controller: AbortController,
+    log: (message: string) => void
+  ): Promise<string> {
+    const timeoutMs = tool.timeoutMs ?? this.toolPolicy.timeoutMs;
+    const { signal } = controller;
+
+    return new Promise<string>(resolve => {
+      const timer = setTimeout(() => {
+        resolve(toolErrorOutput('timeout', `Tool ${tool.name} did not respond within ${timeoutMs} ms`));
+        controller.abort();
+      }, timeoutMs);
+      signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        resolve(toolErrorOutput('cancelled', `The request that called ${tool.name} was cancelled`));
+      }, { once: true });
+
+      Promise.resolve()
+        .then(() => tool.handler(payload, { callId, signal, log }))
+        .then(
+          result => resolve(serializeToolResult(result)),
+          error => resolve(toolErrorOutput('handlerFailed', (error as Error)?.message ?? String(error)))
+        )
+        .finally(() => clearTimeout(timer));
+    });
+  }
+
+  // MARK: - Tool policy
+  configureTools(policy: Partial<ToolPolicy>): void {
+    this.toolPolicy = { ...this.toolPolicy, ...policy };
+  }
+
+  getToolPolicy(): ToolPolicy {
+    return { ...this.toolPolicy };
+  }
+
+  // Tool call events carry no session id; attribute them only when exactly one session turn is running on the provider
+  private findToolCallSession(provider: LanguageModelProvider): string | undefined {
+    const candidates = this.sessions.list()
+      .filter(managed => managed.provider === provider && this.transcripts.hasPendingTurn(managed.session.sessionId));
+    return candidates.length === 1 ? candidates[0].session.sessionId : undefined;
+  }
 }
 
 // MARK: - Convenience functions
 export const foundationModels = FoundationModelsService.getInstance();
 
 // Export individual functions for easier usage
-export const generateText = (prompt: string, options?: { maxTokens?: number; temperature?: number }) => 
+export const generateText = (
+  prompt: string,
+  options?: { maxTokens?: number; temperature?: number } & RequestOptions
+) => 
   foundationModels.generateText(prompt, options);
 
-export const generateSummary = (prompt: string) => 
-  foundationModels.generateSummary(prompt);
+export const generateSummary = (prompt: string, options?: RequestOptions) => 
+  foundationModels.generateSummary(prompt, options);
 
 export const echo = (message: string) => 
   foundationModels.echo(message);
 
-export const generateWithSchema = (prompt: string, schema: object) => 
-  foundationModels.generateWithSchema(prompt, schema);
+export const generateWithSchema = (prompt: string, schema: object, options?: RequestOptions) => 
+  foundationModels.generateWithSchema(prompt, schema, options);
+
+export const generateWithInstructions = (prompt: string, instructions: string, options?: RequestOptions) => 
+  foundationModels.generateWithInstructions(prompt, instructions, options);
+
+export const generateStreaming = (
+  prompt: string,
+  onChunk: (chunk: string) => void,
+  options?: RequestOptions
+) => 
+  foundationModels.generateStreaming(prompt, onChunk, options);
 
-export const generateWithInstructions = (prompt: string, instructions: string) => 
-  foundationModels.generateWithInstructions(prompt, instructions);
+export const stream = (
+  prompt: string,
+  options?: { maxTokens?: number; temperature?: number } & RequestOptions
+) =>
+  foundationModels.stream(prompt, options);
 
-export const generateStreaming = (prompt: string, onChunk: (chunk: string) => void) => 
-  foundationModels.generateStreaming(prompt, onChunk);
+export const createConversationSession = (instructions?: string, options?: SessionOptions) => 
+  foundationModels.createConversationSession(instructions, options);
 
-export const createConversationSession = (instructions?: string) => 
-  foundationModels.createConversationSession(instructions);
+export const restoreConversationSession = (transcript: TranscriptEntry[], options?: SessionOptions) =>
+  foundationModels.restoreConversationSession(transcript, options);
 
-export const continueConversation = (sessionId: string, prompt: string) => 
-  foundationModels.continueConversation(sessionId, prompt);
+export const listSessions = () =>
+  foundationModels.listSessions();
+
+export const configureSessions = (limits: Partial<SessionLimits>) =>
+  foundationModels.configureSessions(limits);
+
+export const continueConversation = (sessionId: string, prompt: string, options?: RequestOptions) => 
+  foundationModels.continueConversation(sessionId, prompt, options);
 
 export const checkAvailability = () => 
   foundationModels.checkAvailability();
@@ -522,48 +1884,78 @@ export const prewarmSession = () =>
   foundationModels.prewarmSession();
 
 export const getSessionInfo = (sessionId: string) => 
-  FoundationModels.getSessionInfo({ sessionId });
+  foundationModels.getSessionInfo({ sessionId });
+
+export const getTranscript = (sessionId: string) =>
+  foundationModels.getTranscript(sessionId);
 
 export const registerTool = async (
   name: string,
   description: string,
-  handler: (payload: string) => Promise<string> | string
+  handler: ToolHandler,
+  options: ToolOptions = {}
 ): Promise<string> => {
   const toolId = `tool_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-  jsToolHandlers.set(toolId, handler);
-  await foundationModels.registerTool({ toolId, name, description });
+  jsToolHandlers.set(toolId, jsTool(name, handler, options));
+  await foundationModels.registerTool({ toolId, name, description, parameters: options.parameters });
   return toolId;
 };
 
+export const unregisterTool = (toolId: string) =>
+  foundationModels.unregisterTool(toolId);
+
+// Registers a tool declared with `defineTool`; its schema is sent along and arguments are validated before the handler runs
+export const registerDefinedTool = async <Args>(
+  definition: ToolDefinition<Args>,
+  toolId: string = definition.name
+): Promise<string> => {
+  const { name, description, parameters, timeoutMs } = definition;
+  jsToolHandlers.set(toolId, {
+    name,
+    handler: createToolHandler(definition),
+    timeoutMs,
+    requiresApproval: createApprovalCheck(definition)
+  });
+  await foundationModels.registerTool({ toolId, name, description, parameters });
+  return toolId;
+};
+
+export const invokeTool = (toolId: string, args: string, options?: { signal?: AbortSignal }) =>
+  foundationModels.invokeTool(toolId, args, options);
+
+export const resolveToolApproval = (callId: string, decision: ToolApprovalDecision) =>
+  foundationModels.resolveToolApproval(callId, decision);
+
+// Renders a named template from the prompt library, e.g. renderPrompt('summary.concise', { text })
+export const renderPrompt = <N extends PromptName>(name: N, values: PromptValuesFor<N>) =>
+  promptLibrary.render(name, values);
+
+export const configureTools = (policy: Partial<ToolPolicy>) =>
+  foundationModels.configureTools(policy);
+
+export const configureProviders = (rules: ProviderRoutingRules) =>
+  foundationModels.configureProviders(rules);
+
+export const configureRetry = (policy: Partial<RetryPolicy>) =>
+  foundationModels.configureRetry(policy);
+
+export const configureContextBudget = (policy: Partial<ContextBudgetPolicy>) =>
+  foundationModels.configureContextBudget(policy);
+
+export const configureScheduler = (options: Partial<SchedulerOptions>) =>
+  foundationModels.configureScheduler(options);
+
 export const removeAllListeners = () => FoundationModels.removeAllListeners();
 
 export const registerCustomTool = async (
   toolId: string,
   name: string,
   description: string,
-  handler: (payload: string) => Promise<string> | string
+  handler: ToolHandler,
+  options: ToolOptions = {}
 ): Promise<void> => {
-  jsToolHandlers.set(toolId, handler);
-  await foundationModels.registerTool({ toolId, name, description });
+  jsToolHandlers.set(toolId, jsTool(name, handler, options));
+  await foundationModels.registerTool({ toolId, name, description, parameters: options.parameters });
 };
 
 export default foundationModels;
-
-// --- Tool Call Bridge (JS side) ---
-const jsToolHandlers: Map<string, (payload: string) => Promise<string> | string> = new Map();
-
-// @ts-ignore – toolCall listener is custom event from native side
-+(FoundationModels as any).addListener?.('toolCall', async (data: any) => {
-  const { toolId, callId, payload } = data as { toolId: string; callId: string; payload: string };
-  const handler = jsToolHandlers.get(toolId);
-  if (!handler) {
-    await FoundationModels.sendToolResult({ callId, output: '' });
-    return;
-  }
-  try {
-    const res = await handler(payload);
-    await FoundationModels.sendToolResult({ callId, output: typeof res === 'string' ? res : JSON.stringify(res) });
-  } catch (err: any) {
-    await FoundationModels.sendToolResult({ callId, output: `Error: ${err?.message ?? String(err)}` });
-  }
-}); 
\ No newline at end of file
@@ -0,0 +1,163 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+
+import { FakeLanguageModel } from './fake.language.model';
+import type { StreamingChunk, ToolCallEvent } from './foundation.models.service';
+import { FoundationModelsWeb } from './foundation.models.web';
+
+let model: FakeLanguageModel;
+let plugin: FoundationModelsWeb;
+
+// Collects a stream's chunks until it completes or fails
+function collectStream(streamId: string): Promise<StreamingChunk[]> {
+  const chunks: StreamingChunk[] = [];
+  return new Promise(resolve => {
+    plugin.addListener('streamingUpdate', (data: StreamingChunk) => {
+      if (data.callId !== streamId) return;
+      chunks.push(data);
+      if (data.chunk === '[STREAM_COMPLETE]' || data.chunk === '[STREAM_ERROR]') resolve(chunks);
+    });
+  });
+}
+
+// Answers every tool call the way the service's bridge does
+function answerToolCalls(answer: (event: ToolCallEvent) => string): ToolCallEvent[] {
+  const calls: ToolCallEvent[] = [];
+  plugin.addListener('toolCall', (event: ToolCallEvent) => {
+    calls.push(event);
+    plugin.sendToolResult({ callId: event.callId, output: answer(event) });
+  });
+  return calls;
+}
+
+beforeEach(() => {
+  model = new FakeLanguageModel();
+  model.configure({ chunkDelayMs: 0 });
+  plugin = new FoundationModelsWeb(model);
+});
+
+describe('FoundationModelsWeb', () => {
+  it('answers from the first matching rule and echoes otherwise', async () => {
+    model.script(
+      { match: 'capital of france', response: 'Paris.' },
+      { match: /^count/i, response: prompt => `${prompt.length} characters` }
+    );
+
+    await expect(plugin.generateText({ prompt: 'What is the capital of France?' })).resolves.toEqual({ text: 'Paris.' });
+    await expect(plugin.generateText({ prompt: 'count me' })).resolves.toEqual({ text: '8 characters' });
+    await expect(plugin.generateText({ prompt: 'Hello' })).resolves.toEqual({ text: 'You said: "Hello"' });
+    await expect(plugin.generateText({ prompt: '' })).rejects.toThrow("'prompt' must be a non-empty string.");
+  });
+
+  it('uses a once rule a single time', async () => {
+    model.script({ match: 'hi', response: 'First.', once: true });
+
+    await expect(plugin.generateText({ prompt: 'hi' })).resolves.toEqual({ text: 'First.' });
+    await expect(plugin.generateText({ prompt: 'hi' })).resolves.toEqual({ text: 'You said: "hi"' });
+  });
+
+  it('rejects while the model is unavailable and with scripted errors', async () => {
+    model.setAvailability('notReady');
+    await expect(plugin.checkAvailability()).resolves.toEqual(expect.objectContaining({ available: false, status: 'notReady' }));
+    await expect(plugin.generateText({ prompt: 'Hello' })).rejects.toThrow('Model downloading');
+
+    model.setAvailability('available');
+    model.script({ match: 'boom', error: 'Context window exceeded' });
+    await expect(plugin.generateText({ prompt: 'boom' })).rejects.toThrow('Context window exceeded');
+  });
+
+  it('keeps the history of a session', async () => {
+    const { sessionId } = await plugin.createSession({
+      history: [{ type: 'prompt', text: 'Hi', timestamp: 1 }, { type: 'response', text: 'Hello!', timestamp: 2 }]
+    });
+
+    await expect(plugin.continueConversation({ sessionId, prompt: 'Again' }))
+      .resolves.toEqual({ text: 'You said: "Again" (turn 2 of this conversation)' });
+    await expect(plugin.getSessionInfo({ sessionId })).resolves.toEqual({ sessionId, isResponding: false, messageCount: 2 });
+    await expect(plugin.continueConversation({ sessionId: 'missing', prompt: 'Hi' })).rejects.toThrow('Session not found');
+  });
+
+  it('streams a response in chunks and then completes', async () => {
+    model.configure({ chunkSize: 4 });
+    model.script({ match: 'stream', response: 'One two three' });
+
+    const { streamId } = await plugin.generateStreaming({ prompt: 'stream please' });
+    const chunks = await collectStream(streamId);
+
+    expect(chunks.map(({ chunk }) => chunk)).toEqual(['One ', 'two ', 'thre', 'e', '[STREAM_COMPLETE]']);
+  });
+
+  it('reports a failed stream with its error', async () => {
+    model.script({ match: 'stream', error: 'Guardrail violation' });
+
+    const { streamId } = await plugin.generateStreaming({ prompt: 'stream please' });
+    const chunks = await collectStream(streamId);
+
+    expect(chunks).toEqual([{ chunk: '[STREAM_ERROR]', callId: streamId, error: 'Guardrail violation' }]);
+  });
+
+  it('cancels a request by its requestId', async () => {
+    model.configure({ latencyMs: 20 });
+
+    const result = plugin.generateText({ prompt: 'Slow answer', requestId: 'request-1' });
+    await plugin.cancelGeneration({ requestId: 'request-1' });
+
+    await expect(result).rejects.toThrow('Generation cancelled');
+    // The cancellation is used up; the same id can run again
+    await expect(plugin.generateText({ prompt: 'Slow answer', requestId: 'request-1' })).resolves.toBeDefined();
+  });
+
+  it('stops a cancelled stream without reporting an error', async () => {
+    model.configure({ chunkSize: 1, chunkDelayMs: 5 });
+    const chunks: StreamingChunk[] = [];
+    plugin.addListener('streamingUpdate', (data: StreamingChunk) => chunks.push(data));
+
+    await plugin.generateStreaming({ prompt: 'A long streamed answer', requestId: 'stream-1' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    await plugin.cancelGeneration({ requestId: 'stream-1' });
+    const seen = chunks.length;
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(chunks.length).toBeLessThanOrEqual(seen + 1);
+    expect(chunks.map(({ chunk }) => chunk)).not.toContain('[STREAM_COMPLETE]');
+    expect(chunks.map(({ chunk }) => chunk)).not.toContain('[STREAM_ERROR]');
+  });
+
+  it('calls scripted tools and answers with their output', async () => {
+    await plugin.registerTool({ toolId: 'weather_tool', name: 'get_weather', description: 'Weather for a city' });
+    model.script({
+      match: 'weather',
+      toolCalls: [{ toolName: 'get_weather', payload: '{"city":"Lisbon"}' }],
+      response: (_, outputs) => `It is ${outputs[0]}.`
+    });
+    const calls = answerToolCalls(() => '21°C and sunny');
+
+    await expect(plugin.generateText({ prompt: 'weather in Lisbon?', requestId: 'request-2' }))
+      .resolves.toEqual({ text: 'It is 21°C and sunny.' });
+    expect(calls).toEqual([
+      expect.objectContaining({ toolId: 'weather_tool', payload: '{"city":"Lisbon"}', requestId: 'request-2' })
+    ]);
+  });
+
+  it('skips tools outside the request scope', async () => {
+    await plugin.registerTool({ toolId: 'weather_tool', name: 'get_weather', description: 'Weather for a city' });
+    model.script({ match: 'weather', toolCalls: [{ toolName: 'weather_tool', payload: '{}' }] });
+    const calls = answerToolCalls(() => 'sunny');
+
+    await expect(plugin.generateText({ prompt: 'weather?', tools: ['notes_tool'] }))
+      .resolves.toEqual({ text: 'You said: "weather?"' });
+    expect(calls).toEqual([]);
+  });
+
+  it('fills a dynamic schema from the response', async () => {
+    model.script({ match: 'person', response: 'Ada' });
+    const schema = JSON.stringify({
+      type: 'object',
+      properties: { name: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } }, mood: { enum: ['happy', 'sad'] } }
+    });
+
+    const { json } = await plugin.generateDynamic({ prompt: 'a person', schema });
+
+    expect(JSON.parse(json)).toEqual({ name: 'Ada', tags: ['Ada'], mood: 'happy' });
+    await expect(plugin.generateDynamic({ prompt: 'a person', schema: '{' })).rejects.toThrow('Invalid JSON schema');
+  });
+});
@@ -0,0 +1,315 @@
+import { WebPlugin } from '@capacitor/core';
+
+import { fakeLanguageModel, type FakeLanguageModel, type FakeScriptRule } from './fake.language.model';
+import type {
+  AvailabilityResult,
+  FoundationModelsPlugin,
+  GenerationOptions,
+  SessionInfo,
+  ToolRegistration
+} from './foundation.models.service';
+import { transcriptTurns, type TranscriptEntry } from './session.transcript';
+
+interface WebSession {
+  instructions?: string;
+  tools?: string[];
+  history: { prompt: string; response: string }[];
+  isResponding: boolean;
+}
+
+// MARK: - Web implementation
+/**
+ * Browser implementation of the FoundationModels plugin, backed by the scriptable
+ * fake model so the app can be developed without an iOS 26 device.
+ */
+export class FoundationModelsWeb extends WebPlugin implements FoundationModelsPlugin {
+  private sessions: Map<string, WebSession> = new Map();
+  private tools: Map<string, ToolRegistration> = new Map();
+  private pendingToolCalls: Map<string, (output: string) => void> = new Map();
+  private cancelledRequests: Set<string> = new Set();
+  private nextId = 0;
+  private readonly model: FakeLanguageModel;
+
+  constructor(model: FakeLanguageModel = fakeLanguageModel) {
+    super();
+    this.model = model;
+  }
+
+  // MARK: - Basic text generation
+  async generateText(options: {
+    prompt: string;
+    maxTokens?: number;
+    temperature?: number;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ text: string }> {
+    requirePrompt(options.prompt);
+    return { text: await this.run(options.prompt, { tools: options.tools }, options.requestId) };
+  }
+
+  // MARK: - Guided generation
+  async generateSummary(options: { prompt: string; requestId?: string }): Promise<{ json: string }> {
+    const summary = await this.run(options.prompt, {}, options.requestId);
+    return { json: JSON.stringify({ summary }) };
+  }
+
+  // MARK: - Tool calling
+  async echo(options: { message: string }): Promise<{ reply: string }> {
+    await this.run(options.message);
+    return { reply: `Echo: ${options.message}` };
+  }
+
+  // MARK: - Dynamic schema generation
+  async generateDynamic(options: { prompt: string; schema: string; requestId?: string }): Promise<{ json: string }> {
+    let schema: unknown;
+    try {
+      schema = JSON.parse(options.schema);
+    } catch {
+      throw new Error('Invalid JSON schema');
+    }
+
+    const text = await this.run(options.prompt, {}, options.requestId);
+    return { json: JSON.stringify(sampleForSchema(schema, text)) };
+  }
+
+  // MARK: - Instructions-based generation
+  async generateWithInstructions(options: {
+    prompt: string;
+    instructions: string;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ text: string }> {
+    const { instructions, tools } = options;
+    return { text: await this.run(options.prompt, { instructions, tools }, options.requestId) };
+  }
+
+  // MARK: - Streaming generation
+  async generateStreaming(options: {
+    prompt: string;
+    maxTokens?: number;
+    temperature?: number;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ streamId: string }> {
+    const streamId = this.makeId('stream');
+    const requestId = options.requestId ?? streamId;
+
+    // Resolve first so the caller can register its listener before chunks arrive
+    setTimeout(async () => {
+      try {
+        const text = await this.run(options.prompt, { tools: options.tools }, requestId, false);
+        for (const chunk of this.model.chunk(text)) {
+          await this.model.waitForChunk();
+          this.throwIfCancelled(requestId);
+          this.notifyListeners('streamingUpdate', { chunk, callId: streamId });
+        }
+        this.notifyListeners('streamingUpdate', { chunk: '[STREAM_COMPLETE]', callId: streamId });
+      } catch (error) {
+        // A cancelled stream just stops; its listener is already gone
+        if (!this.cancelledRequests.has(requestId)) {
+          this.notifyListeners('streamingUpdate', {
+            chunk: '[STREAM_ERROR]',
+            callId: streamId,
+            error: (error as Error).message
+          });
+        }
+      } finally {
+        this.cancelledRequests.delete(requestId);
+      }
+    }, 0);
+
+    return { streamId };
+  }
+
+  // MARK: - Session management
+  async createSession(options: {
+    instructions?: string;
+    history?: TranscriptEntry[];
+    tools?: string[];
+  }): Promise<{ sessionId: string }> {
+    const sessionId = this.makeId('session');
+    this.sessions.set(sessionId, {
+      instructions: options.instructions,
+      tools: options.tools,
+      history: transcriptTurns(options.history ?? []),
+      isResponding: false
+    });
+    return { sessionId };
+  }
+
+  async continueConversation(options: {
+    sessionId: string;
+    prompt: string;
+    requestId?: string;
+  }): Promise<{ text: string }> {
+    const session = this.sessions.get(options.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    if (session.isResponding) {
+      throw new Error('Session is already responding to a request');
+    }
+
+    session.isResponding = true;
+    try {
+      const text = await this.run(options.prompt, {
+        instructions: session.instructions,
+        tools: session.tools,
+        history: [...session.history]
+      }, options.requestId);
+      session.history.push({ prompt: options.prompt, response: text });
+      return { text };
+    } finally {
+      session.isResponding = false;
+    }
+  }
+
+  async deleteSession(options: { sessionId: string }): Promise<{ success: boolean }> {
+    return { success: this.sessions.delete(options.sessionId) };
+  }
+
+  // MARK: - Cancellation
+  async cancelGeneration(options: { requestId: string }): Promise<{ success: boolean }> {
+    this.cancelledRequests.add(options.requestId);
+    return { success: true };
+  }
+
+  async getSessionInfo(options: { sessionId: string }): Promise<SessionInfo> {
+    const session = this.sessions.get(options.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    return {
+      sessionId: options.sessionId,
+      isResponding: session.isResponding,
+      messageCount: session.history.length
+    };
+  }
+
+  // MARK: - Performance optimization
+  async prewarmSession(): Promise<{ success: boolean }> {
+    return { success: true };
+  }
+
+  // MARK: - Availability checking
+  async checkAvailability(): Promise<AvailabilityResult> {
+    return this.model.availability();
+  }
+
+  // MARK: - Advanced generation with options
+  async generateWithOptions(options: GenerationOptions): Promise<{ text: string }> {
+    requirePrompt(options.prompt);
+    return { text: await this.run(options.prompt, { tools: options.tools }, options.requestId) };
+  }
+
+  // MARK: - Dynamic tool registration
+  async registerTool(options: ToolRegistration): Promise<{ success: boolean }> {
+    if (!this.tools.has(options.toolId)) {
+      this.tools.set(options.toolId, { ...options });
+    }
+    return { success: true };
+  }
+
+  async unregisterTool(options: { toolId: string }): Promise<{ success: boolean }> {
+    return { success: this.tools.delete(options.toolId) };
+  }
+
+  async sendToolResult(options: { callId: string; output: string }): Promise<{ success: boolean }> {
+    const resolve = this.pendingToolCalls.get(options.callId);
+    if (resolve) {
+      this.pendingToolCalls.delete(options.callId);
+      resolve(options.output);
+    }
+    return { success: true };
+  }
+
+  // MARK: - Helpers
+  private async run(
+    prompt: string,
+    context: { instructions?: string; history?: WebSession['history']; tools?: string[] } = {},
+    requestId?: string,
+    settle = true
+  ): Promise<string> {
+    try {
+      const rule = this.model.findRule(prompt);
+      const toolOutputs = await this.callTools(rule, context.tools, requestId);
+      const reply = await this.model.respond({ prompt, ...context }, rule, toolOutputs);
+      this.throwIfCancelled(requestId);
+      return reply.text;
+    } finally {
+      if (settle && requestId) {
+        this.cancelledRequests.delete(requestId);
+      }
+    }
+  }
+
+  private throwIfCancelled(requestId: string | undefined): void {
+    if (requestId && this.cancelledRequests.has(requestId)) {
+      throw new Error('Generation cancelled');
+    }
+  }
+
+  // Mirrors JSToolBridge: emit `toolCall` and wait for JS to answer via sendToolResult
+  private async callTools(
+    rule: FakeScriptRule | undefined,
+    scope: string[] | undefined,
+    requestId?: string
+  ): Promise<string[]> {
+    const outputs: string[] = [];
+    const tools = Array.from(this.tools.values()).filter(tool => !scope || scope.includes(tool.toolId));
+    for (const toolCall of rule?.toolCalls ?? []) {
+      this.throwIfCancelled(requestId);
+      const tool = tools.find(candidate =>
+        candidate.toolId === toolCall.toolName || candidate.name === toolCall.toolName
+      );
+      if (!tool) continue;
+
+      const callId = this.makeId('call');
+      const output = new Promise<string>(resolve => this.pendingToolCalls.set(callId, resolve));
+      this.notifyListeners('toolCall', { toolId: tool.toolId, callId, payload: toolCall.payload, requestId });
+      outputs.push(await output);
+    }
+    return outputs;
+  }
+
+  private makeId(prefix: string): string {
+    this.nextId++;
+    return `web_${prefix}_${this.nextId}`;
+  }
+}
+
+function requirePrompt(prompt: string): void {
+  if (!prompt) {
+    throw new Error("'prompt' must be a non-empty string.");
+  }
+}
+
+// Builds a deterministic value matching a (subset of) JSON schema
+function sampleForSchema(schema: unknown, text: string): unknown {
+  const spec = (schema ?? {}) as { type?: string; properties?: Record<string, unknown>; items?: unknown; enum?: unknown[] };
+
+  if (Array.isArray(spec.enum) && spec.enum.length > 0) {
+    return spec.enum[0];
+  }
+
+  switch (spec.type) {
+    case 'object': {
+      const result: Record<string, unknown> = {};
+      for (const [key, value] of Object.entries(spec.properties ?? {})) {
+        result[key] = sampleForSchema(value, text);
+      }
+      return result;
+    }
+    case 'array':
+      return [sampleForSchema(spec.items, text)];
+    case 'number':
+      return text.length / 10;
+    case 'integer':
+      return text.length;
+    case 'boolean':
+      return true;
+    case 'string':
+    default:
+      return text;
+  }
+}
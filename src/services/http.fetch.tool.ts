@@ -0,0 +1,252 @@
+import { defineTool } from './tool.definition';
+
+// MARK: - Type definitions
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface HttpAllowRule {
+  // `api.example.com`, `*.example.com` or, to allow a non-default port, `localhost:8787`
+  host: string;
+  methods: HttpMethod[];
+  // Header templates for this host, merged over the policy-wide ones
+  headers?: Record<string, string>;
+  // Plain http is only allowed for loopback hosts unless set
+  allowHttp?: boolean;
+}
+
+export interface HttpFetchPolicy {
+  allow: HttpAllowRule[];
+  // Header templates sent with every request; `{{name}}` is replaced with `variables[name]`
+  headers: Record<string, string>;
+  variables: Record<string, string>;
+  // Bytes read from the response body before it is cut off
+  maxResponseBytes: number;
+  // Characters of condensed response text handed to the model
+  maxOutputChars: number;
+}
+
+export const defaultHttpFetchPolicy: HttpFetchPolicy = {
+  allow: [],
+  headers: {},
+  variables: {},
+  maxResponseBytes: 256 * 1024,
+  maxOutputChars: 4000
+};
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+// Array items shown per array when condensing JSON
+const MAX_ARRAY_ITEMS = 10;
+
+let policy: HttpFetchPolicy = { ...defaultHttpFetchPolicy };
+
+// MARK: - Policy
+export function configureHttpFetch(update: Partial<HttpFetchPolicy>): void {
+  policy = { ...policy, ...update };
+}
+
+export function getHttpFetchPolicy(): HttpFetchPolicy {
+  return { ...policy };
+}
+
+/**
+ * Reads an allowlist such as `api.example.com=GET,POST;localhost:8787=GET`, the format of
+ * the `VITE_HTTP_FETCH_ALLOW` variable. A host without methods allows GET only.
+ */
+export function parseHttpAllowlist(spec: string): HttpAllowRule[] {
+  return spec.split(/[;\n]/).map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [host, methodList] = entry.split('=');
+    const methods = (methodList ?? 'GET').split(',').map(method => method.trim().toUpperCase());
+    const unknown = methods.filter(method => !HTTP_METHODS.includes(method as HttpMethod));
+    if (unknown.length > 0) throw new Error(`Unknown HTTP method ${unknown.join(', ')} for ${host}`);
+    return { host: host.trim().toLowerCase(), methods: methods as HttpMethod[] };
+  });
+}
+
+function hostMatches(pattern: string, url: URL): boolean {
+  // Patterns without a port only match the protocol's default port
+  const [patternHost, patternPort = ''] = pattern.startsWith('[')
+    ? [pattern.slice(0, pattern.indexOf(']') + 1), pattern.slice(pattern.indexOf(']') + 2)]
+    : pattern.split(':');
+  if (patternPort !== url.port) return false;
+
+  return patternHost.startsWith('*.')
+    ? url.hostname.endsWith(patternHost.slice(1))
+    : url.hostname === patternHost;
+}
+
+// Throws with a message the model can act on when the request is not allowed
+function authorize(url: URL, method: HttpMethod): HttpAllowRule {
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new Error(`Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+  if (url.username || url.password) throw new Error('URLs with credentials are not allowed');
+
+  const rule = policy.allow.find(candidate => hostMatches(candidate.host, url));
+  if (!rule) {
+    const hosts = policy.allow.map(candidate => candidate.host).join(', ') || 'none';
+    throw new Error(`${url.host} is not on the allowlist (allowed hosts: ${hosts})`);
+  }
+  if (!rule.methods.includes(method)) {
+    throw new Error(`${method} is not allowed for ${url.host}; allowed: ${rule.methods.join(', ')}`);
+  }
+  if (url.protocol === 'http:' && !rule.allowHttp && !LOOPBACK_HOSTS.includes(url.hostname)) {
+    throw new Error(`${url.host} must be fetched over https`);
+  }
+  return rule;
+}
+
+function renderHeaders(templates: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(templates).map(([name, template]) => [
+    name,
+    template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, variable: string) => {
+      const value = policy.variables[variable];
+      if (value === undefined) throw new Error(`Header ${name} uses the unset variable ${variable}`);
+      return value;
+    })
+  ]));
+}
+
+// MARK: - Response handling
+async function readLimited(response: Response, maxBytes: number): Promise<{ text: string; bytes: number; truncated: boolean }> {
+  if (!response.body) return { text: '', bytes: 0, truncated: false };
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  let truncated = false;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    const remaining = maxBytes - bytes;
+    if (value.byteLength > remaining) {
+      chunks.push(value.subarray(0, remaining));
+      bytes += remaining;
+      truncated = true;
+      await reader.cancel();
+      break;
+    }
+    chunks.push(value);
+    bytes += value.byteLength;
+  }
+
+  const body = new Uint8Array(bytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { text: new TextDecoder().decode(body), bytes, truncated };
+}
+
+/**
+ * Flattens JSON into `path: value` lines, which models read more reliably than nested
+ * JSON and which cost fewer tokens. Nulls and empty strings are dropped and long arrays
+ * are cut to their first items.
+ */
+export function condenseJson(value: unknown, path = ''): string[] {
+  if (value === null || value === '') return [];
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [`${path || '$'}: (empty list)`];
+    const lines = value.slice(0, MAX_ARRAY_ITEMS).flatMap((item, index) => condenseJson(item, `${path}[${index}]`));
+    if (value.length > MAX_ARRAY_ITEMS) lines.push(`${path || '$'}: … ${value.length - MAX_ARRAY_ITEMS} more items`);
+    return lines;
+  }
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .flatMap(([key, child]) => condenseJson(child, path ? `${path}.${key}` : key));
+  }
+  return [`${path || '$'}: ${String(value)}`];
+}
+
+function condenseBody(text: string, contentType: string): string {
+  if (contentType.includes('json') || /^\s*[[{]/.test(text)) {
+    try {
+      return condenseJson(JSON.parse(text)).join('\n');
+    } catch {
+      // Not JSON after all, or cut off by the size limit; fall through to plain text
+    }
+  }
+  if (contentType.includes('html')) {
+    return text
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, ' ')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim();
+  }
+  return text.trim();
+}
+
+// MARK: - Tool
+export const httpFetchTool = defineTool({
+  name: 'http_fetch',
+  description: 'Sends an HTTP request to an allowed internal API and returns the response as text. '
+    + 'JSON responses are flattened to "path: value" lines.',
+  parameters: {
+    type: 'object',
+    properties: {
+      url: { type: 'string', description: 'Absolute http(s) URL including any query string', minLength: 1 },
+      method: { type: 'string', enum: HTTP_METHODS },
+      body: { type: 'string', description: 'Request body; sent as application/json when it is valid JSON' }
+    },
+    required: ['url']
+  },
+  // Anything but GET can change remote state, so the user confirms it first
+  requiresApproval: ({ method }) => (method ?? 'GET').toUpperCase() !== 'GET',
+  handler: async ({ url: rawUrl, method = 'GET', body }, { signal, log }) => {
+    let url: URL;
+    try {
+      url = new URL(rawUrl);
+    } catch {
+      throw new Error(`${rawUrl} is not an absolute URL`);
+    }
+    const rule = authorize(url, method);
+
+    const headers = renderHeaders({ ...policy.headers, ...rule.headers });
+    if (body !== undefined && !Object.keys(headers).some(name => name.toLowerCase() === 'content-type')) {
+      let isJson = true;
+      try {
+        JSON.parse(body);
+      } catch {
+        isJson = false;
+      }
+      headers['Content-Type'] = isJson ? 'application/json' : 'text/plain';
+    }
+
+    // Header values may hold secrets, so only their names are logged
+    log(`→ ${method} ${url.href}`);
+    if (Object.keys(headers).length > 0) log(`  headers: ${Object.keys(headers).join(', ')}`);
+    if (body !== undefined) log(`  body: ${body.length} characters`);
+
+    const startedAt = Date.now();
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method,
+        headers,
+        body: method === 'GET' ? undefined : body,
+        credentials: 'omit',
+        // A redirect could lead off the allowlist
+        redirect: 'error',
+        signal
+      });
+    } catch (error) {
+      log(`← failed after ${Date.now() - startedAt} ms: ${(error as Error).message}`);
+      throw new Error(`Request to ${url.host} failed: ${(error as Error).message}`);
+    }
+
+    const contentType = response.headers.get('content-type') ?? '';
+    const { text, bytes, truncated } = await readLimited(response, policy.maxResponseBytes);
+    log(`← ${response.status} ${response.statusText} ${contentType || 'no content type'}, `
+      + `${bytes} bytes${truncated ? ' (truncated)' : ''} in ${Date.now() - startedAt} ms`);
+
+    let condensed = condenseBody(text, contentType);
+    if (condensed.length > policy.maxOutputChars) {
+      condensed = `${condensed.slice(0, policy.maxOutputChars)}\n… response shortened`;
+    } else if (truncated) {
+      condensed += '\n… response cut off at the size limit';
+    }
+
+    return `HTTP ${response.status} ${response.statusText}`.trim() + (condensed ? `\n${condensed}` : '');
+  }
+});
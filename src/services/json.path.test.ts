@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+
+import { queryJsonPath } from './json.path';
+
+const order = {
+  id: 'o-1',
+  customer: { id: 'c-7', name: 'Ada', 'billing-address': { city: 'Lisbon' } },
+  items: [
+    { id: 'i-1', name: 'Tea', price: 4.5 },
+    { id: 'i-2', name: 'Cups', price: 12 },
+    { id: 'i-3', name: 'Kettle', price: 39 }
+  ],
+  'odd key': true
+};
+
+const values = (path: string) => queryJsonPath(order, path).map(match => match.value);
+
+describe('queryJsonPath', () => {
+  it('returns the document for $', () => {
+    expect(queryJsonPath(order, '$')).toEqual([{ path: '$', value: order }]);
+  });
+
+  it('follows dotted and bracketed property names', () => {
+    expect(values('$.customer.name')).toEqual(['Ada']);
+    expect(values("$.customer['billing-address'].city")).toEqual(['Lisbon']);
+    expect(values('$["odd key"]')).toEqual([true]);
+  });
+
+  it('indexes arrays from the start and from the end', () => {
+    expect(values('$.items[0].name')).toEqual(['Tea']);
+    expect(values('$.items[-1].name')).toEqual(['Kettle']);
+    expect(values('$.items[3]')).toEqual([]);
+  });
+
+  it('expands wildcards over arrays and objects', () => {
+    expect(values('$.items[*].price')).toEqual([4.5, 12, 39]);
+    expect(values('$.customer.*')).toEqual(['c-7', 'Ada', { city: 'Lisbon' }]);
+  });
+
+  it('finds names at any depth with recursive descent', () => {
+    expect(values('$..id')).toEqual(['o-1', 'c-7', 'i-1', 'i-2', 'i-3']);
+    expect(values('$..city')).toEqual(['Lisbon']);
+  });
+
+  it('reports normalized paths for every match', () => {
+    expect(queryJsonPath(order, '$..city')).toEqual([{ path: "$.customer['billing-address'].city", value: 'Lisbon' }]);
+    expect(queryJsonPath(order, '$.items[-1]')[0].path).toBe('$.items[2]');
+  });
+
+  it('matches nothing for missing names and inherited members', () => {
+    expect(values('$.missing.name')).toEqual([]);
+    expect(values('$.constructor')).toEqual([]);
+    expect(values('$.items.length')).toEqual([]);
+  });
+
+  it.each([
+    ['items[0]', "JSONPath must start with '$'"],
+    ['$.', 'Expected a property name at position 3'],
+    ['$.items[0', 'Malformed bracket expression at position 8'],
+    ['$items', "Unexpected 'i' at position 2"]
+  ])('rejects the malformed path %j', (path, message) => {
+    expect(() => queryJsonPath(order, path)).toThrow(message);
+  });
+});
@@ -0,0 +1,115 @@
+// MARK: - Type definitions
+type PathSegment =
+  | { type: 'property'; name: string }
+  | { type: 'index'; index: number }
+  | { type: 'wildcard' }
+  // `..name` or `..*`: the segment applied to the node and all of its descendants
+  | { type: 'descendants'; segment: PathSegment };
+
+export interface JsonPathMatch {
+  path: string;
+  value: unknown;
+}
+
+// MARK: - Parsing
+/**
+ * Parses the JSONPath subset used by the query tool: `$`, `.name`, `['name']`,
+ * `[0]`, `[-1]`, `[*]`, `.*` and recursive descent with `..name` or `..*`.
+ */
+function parsePath(path: string): PathSegment[] {
+  const source = path.trim();
+  if (!source.startsWith('$')) throw new Error(`JSONPath must start with '$': ${path}`);
+
+  const segments: PathSegment[] = [];
+  let index = 1;
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${index + 1} of ${path}`);
+  };
+
+  const readName = (): PathSegment => {
+    if (source[index] === '*') {
+      index++;
+      return { type: 'wildcard' };
+    }
+    const name = /^[A-Za-z_$][\w$-]*/.exec(source.slice(index))?.[0];
+    if (!name) return fail('Expected a property name');
+    index += name.length;
+    return { type: 'property', name };
+  };
+
+  const readBracket = (): PathSegment => {
+    const rest = source.slice(index);
+    const match = /^\[\s*(?:(\*)|(-?\d+)|'((?:[^'\\]|\\.)*)'|"((?:[^"\\]|\\.)*)")\s*\]/.exec(rest);
+    if (!match) return fail('Malformed bracket expression');
+    index += match[0].length;
+
+    if (match[1]) return { type: 'wildcard' };
+    if (match[2] !== undefined) return { type: 'index', index: Number(match[2]) };
+    return { type: 'property', name: (match[3] ?? match[4]).replace(/\\(.)/g, '$1') };
+  };
+
+  while (index < source.length) {
+    if (source.startsWith('..', index)) {
+      index += 2;
+      segments.push({ type: 'descendants', segment: source[index] === '[' ? readBracket() : readName() });
+    } else if (source[index] === '.') {
+      index++;
+      segments.push(readName());
+    } else if (source[index] === '[') {
+      segments.push(readBracket());
+    } else {
+      fail(`Unexpected '${source[index]}'`);
+    }
+  }
+  return segments;
+}
+
+// MARK: - Evaluation
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const childPath = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}['${key}']`;
+
+function children(match: JsonPathMatch): JsonPathMatch[] {
+  const { value, path } = match;
+  if (Array.isArray(value)) return value.map((item, index) => ({ path: childPath(path, index), value: item }));
+  if (isObject(value)) return Object.entries(value).map(([key, item]) => ({ path: childPath(path, key), value: item }));
+  return [];
+}
+
+function descendantsAndSelf(match: JsonPathMatch): JsonPathMatch[] {
+  return [match, ...children(match).flatMap(descendantsAndSelf)];
+}
+
+function applySegment(match: JsonPathMatch, segment: PathSegment): JsonPathMatch[] {
+  const { value, path } = match;
+  switch (segment.type) {
+    case 'property':
+      return isObject(value) && Object.prototype.hasOwnProperty.call(value, segment.name)
+        ? [{ path: childPath(path, segment.name), value: value[segment.name] }]
+        : [];
+    case 'index': {
+      if (!Array.isArray(value)) return [];
+      // Negative indexes count from the end
+      const index = segment.index < 0 ? value.length + segment.index : segment.index;
+      return index >= 0 && index < value.length ? [{ path: childPath(path, index), value: value[index] }] : [];
+    }
+    case 'wildcard':
+      return children(match);
+    case 'descendants':
+      return descendantsAndSelf(match).flatMap(node => applySegment(node, segment.segment));
+  }
+}
+
+/**
+ * Evaluates a JSONPath expression against a parsed document and returns every match with
+ * its normalized path. Throws for malformed paths; a path that matches nothing yields [].
+ */
+export function queryJsonPath(document: unknown, path: string): JsonPathMatch[] {
+  let matches: JsonPathMatch[] = [{ path: '$', value: document }];
+  for (const segment of parsePath(path)) {
+    matches = matches.flatMap(match => applySegment(match, segment));
+  }
+  return matches;
+}
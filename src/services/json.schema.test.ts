@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+
+import { validateJsonSchema, type JSONSchema } from './json.schema';
+
+const orderSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer', minimum: 1 },
+    status: { type: 'string', enum: ['open', 'shipped'] },
+    note: { type: 'string', maxLength: 10 },
+    customer: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        email: { type: 'string', pattern: '^[^@]+@[^@]+$' }
+      },
+      required: ['name']
+    },
+    items: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        properties: { sku: { type: 'string' }, quantity: { type: 'number', minimum: 0 } },
+        required: ['sku']
+      }
+    }
+  },
+  required: ['id', 'customer']
+} as const satisfies JSONSchema;
+
+const validOrder = {
+  id: 7,
+  status: 'open',
+  customer: { name: 'Ada', email: 'ada@example.com' },
+  items: [{ sku: 'TEA-1', quantity: 2 }]
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a value that matches', () => {
+    expect(validateJsonSchema(validOrder, orderSchema)).toEqual([]);
+  });
+
+  it('reports missing required fields at every level', () => {
+    expect(validateJsonSchema({ customer: {}, items: [{ quantity: 1 }] }, orderSchema)).toEqual([
+      { path: '$.id', message: 'is required' },
+      { path: '$.customer.name', message: 'is required' },
+      { path: '$.items[0].sku', message: 'is required' }
+    ]);
+  });
+
+  it('reports type mismatches with the received type', () => {
+    expect(validateJsonSchema({ ...validOrder, id: '7', customer: [], items: {} }, orderSchema)).toEqual([
+      { path: '$.id', message: 'expected number, got string' },
+      { path: '$.customer', message: 'expected object, got array' },
+      { path: '$.items', message: 'expected array, got object' }
+    ]);
+    expect(validateJsonSchema(null, orderSchema)).toEqual([{ path: '$', message: 'expected object, got null' }]);
+    expect(validateJsonSchema(1.5, { type: 'integer' })).toEqual([{ path: '$', message: 'expected integer' }]);
+    expect(validateJsonSchema(NaN, { type: 'number' })).toEqual([{ path: '$', message: 'expected number, got number' }]);
+    expect(validateJsonSchema('true', { type: 'boolean' })).toEqual([{ path: '$', message: 'expected boolean, got string' }]);
+  });
+
+  it('checks enums, bounds, lengths and patterns', () => {
+    expect(validateJsonSchema({
+      ...validOrder,
+      id: 0,
+      status: 'lost',
+      note: 'far too long a note',
+      customer: { name: '', email: 'not an address' },
+      items: [{ sku: 'TEA-1', quantity: -1 }]
+    }, orderSchema)).toEqual([
+      { path: '$.id', message: 'must be >= 1' },
+      { path: '$.status', message: 'must be one of open, shipped' },
+      { path: '$.customer.name', message: 'must be at least 1 characters' },
+      { path: '$.customer.email', message: 'must match ^[^@]+@[^@]+$' },
+      { path: '$.items[0].quantity', message: 'must be >= 0' },
+      { path: '$.note', message: 'must be at most 10 characters' }
+    ]);
+    expect(validateJsonSchema({ ...validOrder, items: [] }, orderSchema))
+      .toEqual([{ path: '$.items', message: 'must have at least 1 items' }]);
+    expect(validateJsonSchema(3, { type: 'number', enum: [1, 2] })).toEqual([{ path: '$', message: 'must be one of 1, 2' }]);
+  });
+
+  it('allows unknown properties unless additionalProperties is false', () => {
+    const schema: JSONSchema = { type: 'object', properties: { a: { type: 'number' } } };
+    expect(validateJsonSchema({ a: 1, b: 2 }, schema)).toEqual([]);
+    expect(validateJsonSchema({ a: 1, b: 2 }, { ...schema, additionalProperties: false }))
+      .toEqual([{ path: '$.b', message: 'is not allowed' }]);
+  });
+
+  it('does not treat prototype members as declared properties or present fields', () => {
+    const schema: JSONSchema = { type: 'object', properties: { a: { type: 'number' } }, required: ['toString'] };
+    const args = JSON.parse('{"a":1,"constructor":1,"__proto__":{"polluted":true}}') as unknown;
+    expect(validateJsonSchema(args, schema)).toEqual([{ path: '$.toString', message: 'is required' }]);
+    expect(validateJsonSchema(args, { ...schema, required: [], additionalProperties: false })).toEqual([
+      { path: '$.constructor', message: 'is not allowed' },
+      { path: '$.__proto__', message: 'is not allowed' }
+    ]);
+  });
+});
@@ -0,0 +1,122 @@
+// MARK: - Type definitions
+// The subset of JSON Schema understood by tool definitions and the argument validator
+export type JSONSchema =
+  | { type: 'string'; description?: string; enum?: readonly string[]; minLength?: number; maxLength?: number; pattern?: string }
+  | { type: 'number' | 'integer'; description?: string; enum?: readonly number[]; minimum?: number; maximum?: number }
+  | { type: 'boolean'; description?: string }
+  | { type: 'null'; description?: string }
+  | { type: 'array'; description?: string; items?: JSONSchema; minItems?: number; maxItems?: number }
+  | {
+    type: 'object';
+    description?: string;
+    properties?: Readonly<Record<string, JSONSchema>>;
+    required?: readonly string[];
+    additionalProperties?: boolean;
+  };
+
+// Maps a schema literal (declared `as const` or inferred through a const type parameter) to its value type
+export type InferSchema<S> =
+  S extends { enum: readonly (infer E)[] } ? E
+    : S extends { type: 'string' } ? string
+    : S extends { type: 'number' | 'integer' } ? number
+    : S extends { type: 'boolean' } ? boolean
+    : S extends { type: 'null' } ? null
+    : S extends { type: 'array'; items: infer I } ? InferSchema<I>[]
+    : S extends { type: 'array' } ? unknown[]
+    : S extends { type: 'object'; properties: infer P } ? InferObject<P, S extends { required: readonly (infer R)[] } ? R : never>
+    : S extends { type: 'object' } ? Record<string, unknown>
+    : unknown;
+
+type InferObject<P, Required> = {
+  -readonly [K in keyof P as K extends Required ? K : never]: InferSchema<P[K]>;
+} & {
+  -readonly [K in keyof P as K extends Required ? never : K]?: InferSchema<P[K]>;
+};
+
+export interface SchemaIssue {
+  // JSONPath-style location, `$` being the value itself
+  path: string;
+  message: string;
+}
+
+// MARK: - Validation
+// Keys come from the model, so `constructor` and the like must not resolve to prototype members
+const hasOwn = (record: object, key: string): boolean => Object.prototype.hasOwnProperty.call(record, key);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Checks `value` against `schema` and returns every violation found; an empty list means valid.
+ * Only the keywords in `JSONSchema` are supported.
+ */
+export function validateJsonSchema(value: unknown, schema: JSONSchema, path = '$'): SchemaIssue[] {
+  const issue = (message: string): SchemaIssue[] => [{ path, message }];
+
+  switch (schema.type) {
+    case 'string': {
+      if (typeof value !== 'string') return issue(`expected string, got ${describe(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) return issue(`must be one of ${schema.enum.join(', ')}`);
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return issue(`must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        return issue(`must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        return issue(`must match ${schema.pattern}`);
+      }
+      return [];
+    }
+    case 'number':
+    case 'integer': {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return issue(`expected number, got ${describe(value)}`);
+      if (schema.type === 'integer' && !Number.isInteger(value)) return issue('expected integer');
+      if (schema.enum && !schema.enum.includes(value)) return issue(`must be one of ${schema.enum.join(', ')}`);
+      if (schema.minimum !== undefined && value < schema.minimum) return issue(`must be >= ${schema.minimum}`);
+      if (schema.maximum !== undefined && value > schema.maximum) return issue(`must be <= ${schema.maximum}`);
+      return [];
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : issue(`expected boolean, got ${describe(value)}`);
+    case 'null':
+      return value === null ? [] : issue(`expected null, got ${describe(value)}`);
+    case 'array': {
+      if (!Array.isArray(value)) return issue(`expected array, got ${describe(value)}`);
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        return issue(`must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        return issue(`must have at most ${schema.maxItems} items`);
+      }
+      const { items } = schema;
+      return items ? value.flatMap((item, index) => validateJsonSchema(item, items, `${path}[${index}]`)) : [];
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return issue(`expected object, got ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      const properties = schema.properties ?? {};
+      const issues: SchemaIssue[] = [];
+
+      for (const key of schema.required ?? []) {
+        if (!hasOwn(record, key) || record[key] === undefined) {
+          issues.push({ path: `${path}.${key}`, message: 'is required' });
+        }
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const propertySchema = hasOwn(properties, key) ? properties[key] : undefined;
+        if (propertySchema) {
+          if (child !== undefined) issues.push(...validateJsonSchema(child, propertySchema, `${path}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          issues.push({ path: `${path}.${key}`, message: 'is not allowed' });
+        }
+      }
+      return issues;
+    }
+  }
+}
@@ -0,0 +1,123 @@
+import { TypedEventEmitter } from './typed.event.emitter';
+
+// MARK: - Type definitions
+export interface MemoryFact {
+  key: string;
+  value: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MemoryStoreEvents {
+  // The full list after every change, most recently updated first
+  change: MemoryFact[];
+}
+
+const STORAGE_KEY = 'foundation-models.memory';
+const ENABLED_KEY = 'foundation-models.memory-enabled';
+
+// Keys are matched case- and whitespace-insensitively, so "Favorite color" and "favorite_color" are one fact
+const normalizeKey = (key: string): string => key.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+const terms = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 1);
+
+// MARK: - Memory store
+/**
+ * Facts about the user that outlive conversations, kept in localStorage. The memory tool
+ * writes them on the model's behalf and the memory screen lets the user review them.
+ */
+export class MemoryStore {
+  private events = new TypedEventEmitter<MemoryStoreEvents>();
+
+  on<K extends keyof MemoryStoreEvents>(event: K, listener: (payload: MemoryStoreEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  list(): MemoryFact[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const facts = stored ? JSON.parse(stored) as MemoryFact[] : [];
+      return facts.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.warn('Failed to read memory:', error);
+      return [];
+    }
+  }
+
+  get(key: string): MemoryFact | undefined {
+    const normalized = normalizeKey(key);
+    return this.list().find(fact => fact.key === normalized);
+  }
+
+  // Stores `value` under `key`, replacing an earlier value for the same key
+  remember(key: string, value: string): MemoryFact {
+    const normalized = normalizeKey(key);
+    if (!normalized) throw new Error('A memory needs a non-empty key');
+
+    const existing = this.get(normalized);
+    const now = Date.now();
+    const fact: MemoryFact = { key: normalized, value: value.trim(), createdAt: existing?.createdAt ?? now, updatedAt: now };
+    this.write([fact, ...this.list().filter(other => other.key !== normalized)]);
+    return fact;
+  }
+
+  /**
+   * Facts whose key or value share a term with `query`, best matches first. Key hits weigh
+   * more than value hits; an empty query returns the most recent facts.
+   */
+  recall(query: string, limit = 10): MemoryFact[] {
+    const queryTerms = terms(query);
+    const facts = this.list();
+    if (queryTerms.length === 0) return facts.slice(0, limit);
+
+    return facts
+      .map(fact => {
+        const keyTerms = new Set(terms(fact.key));
+        const valueTerms = new Set(terms(fact.value));
+        const score = queryTerms.reduce((sum, term) =>
+          sum + (keyTerms.has(term) ? 2 : 0) + (valueTerms.has(term) ? 1 : 0), 0);
+        return { fact, score };
+      })
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(match => match.fact);
+  }
+
+  // Returns false when nothing was stored under `key`
+  forget(key: string): boolean {
+    const normalized = normalizeKey(key);
+    const facts = this.list();
+    const remaining = facts.filter(fact => fact.key !== normalized);
+    if (remaining.length === facts.length) return false;
+
+    this.write(remaining);
+    return true;
+  }
+
+  clear(): void {
+    this.write([]);
+  }
+
+  // Whether the model may use memory; kept across launches so turning it off sticks
+  isEnabled(): boolean {
+    try {
+      return localStorage.getItem(ENABLED_KEY) !== 'false';
+    } catch (error) {
+      console.warn('Failed to read the memory setting:', error);
+      return true;
+    }
+  }
+
+  setEnabled(enabled: boolean): void {
+    localStorage.setItem(ENABLED_KEY, String(enabled));
+  }
+
+  private write(facts: MemoryFact[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(facts));
+    this.events.emit('change', facts);
+  }
+}
+
+export const memoryStore = new MemoryStore();
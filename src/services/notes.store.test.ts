@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { NotesStore } from './notes.store';
+
+let storage: Map<string, string>;
+let store: NotesStore;
+
+beforeEach(() => {
+  storage = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value)
+  });
+  store = new NotesStore();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('NotesStore', () => {
+  it('finds saved notes, ranking title and tag hits above body hits', () => {
+    store.save({ title: 'Groceries', body: 'Oat milk, coffee beans', tags: ['home'] });
+    store.save({ title: 'Wi-Fi', body: 'The home network password is on the fridge' });
+
+    const matches = store.search('home');
+    expect(matches.map(match => match.note.title)).toEqual(['Groceries', 'Wi-Fi']);
+    expect(matches[1].snippet).toBe('The home network password is on the fridge');
+    expect(store.search('garage')).toEqual([]);
+  });
+
+  it('replaces a note saved with the same id and reports every change', () => {
+    const listener = vi.fn();
+    store.on('change', listener);
+
+    const note = store.save({ title: 'Wi-Fi', body: 'Password on the fridge' });
+    store.save({ id: note.id, title: 'Wi-Fi', body: 'Password in the drawer' });
+    expect(store.list()).toHaveLength(1);
+    expect(store.get(note.id)?.body).toBe('Password in the drawer');
+
+    store.delete(note.id);
+    expect(store.list()).toEqual([]);
+    expect(listener).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,109 @@
+import { TypedEventEmitter } from './typed.event.emitter';
+
+// MARK: - Type definitions
+export interface Note {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  updatedAt: number;
+}
+
+export interface NoteMatch {
+  note: Note;
+  score: number;
+  // Body excerpt around the first matching term
+  snippet: string;
+}
+
+export interface NotesStoreEvents {
+  // The full list after every change, most recently updated first
+  change: Note[];
+}
+
+const STORAGE_KEY = 'foundation-models.notes';
+const SNIPPET_RADIUS = 80;
+
+const terms = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(term => term.length > 1);
+
+// MARK: - Notes store
+/**
+ * Local notes kept in localStorage, written on the notes screen and searchable offline by
+ * the notes lookup tool. Notes are small and few, so every call reads and writes the whole list.
+ */
+export class NotesStore {
+  private events = new TypedEventEmitter<NotesStoreEvents>();
+
+  on<K extends keyof NotesStoreEvents>(event: K, listener: (payload: NotesStoreEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  list(): Note[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      const notes = stored ? JSON.parse(stored) as Note[] : [];
+      return notes.sort((a, b) => b.updatedAt - a.updatedAt);
+    } catch (error) {
+      console.warn('Failed to read notes:', error);
+      return [];
+    }
+  }
+
+  get(id: string): Note | undefined {
+    return this.list().find(note => note.id === id);
+  }
+
+  // Creates a note, or replaces the one with the same id
+  save(note: Pick<Note, 'title' | 'body'> & Partial<Pick<Note, 'id' | 'tags'>>): Note {
+    const saved: Note = {
+      id: note.id ?? `note_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      title: note.title,
+      body: note.body,
+      tags: note.tags ?? [],
+      updatedAt: Date.now()
+    };
+    this.write([saved, ...this.list().filter(existing => existing.id !== saved.id)]);
+    return saved;
+  }
+
+  delete(id: string): void {
+    this.write(this.list().filter(note => note.id !== id));
+  }
+
+  /**
+   * Ranks notes by how many query terms they contain; title and tag hits weigh more than
+   * body hits. Notes without any hit are left out.
+   */
+  search(query: string, limit = 5): NoteMatch[] {
+    const queryTerms = terms(query);
+    if (queryTerms.length === 0) return [];
+
+    return this.list()
+      .map(note => {
+        const titleTerms = new Set([...terms(note.title), ...note.tags.flatMap(terms)]);
+        const bodyTerms = new Set(terms(note.body));
+        const score = queryTerms.reduce((sum, term) =>
+          sum + (titleTerms.has(term) ? 2 : 0) + (bodyTerms.has(term) ? 1 : 0), 0);
+        return { note, score, snippet: snippet(note.body, queryTerms) };
+      })
+      .filter(match => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private write(notes: Note[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(notes));
+    this.events.emit('change', notes);
+  }
+}
+
+function snippet(body: string, queryTerms: string[]): string {
+  const lower = body.toLowerCase();
+  const hit = queryTerms.map(term => lower.indexOf(term)).filter(index => index >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, hit - SNIPPET_RADIUS);
+  const end = Math.min(body.length, hit + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${body.slice(start, end).trim()}${end < body.length ? '…' : ''}`;
+}
+
+export const notesStore = new NotesStore();
@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import type { StreamingChunk, ToolCallEvent } from './foundation.models.service';
+import { OpenAICompatibleProvider } from './openai.compatible.provider';
+
+const fetchMock = vi.fn<typeof fetch>();
+let provider: OpenAICompatibleProvider;
+
+// A server-sent event stream of chat completion chunks
+const eventStream = (...deltas: object[]) => new Response(
+  [...deltas.map(delta => `data: ${JSON.stringify({ choices: [{ delta, finish_reason: null }] })}\n\n`), 'data: [DONE]\n\n'].join(''),
+  { status: 200, headers: { 'content-type': 'text/event-stream' } }
+);
+
+const requestBody = (index: number) => JSON.parse(String(fetchMock.mock.calls[index][1]?.body));
+
+function collectStream(streamId: string): Promise<StreamingChunk[]> {
+  const chunks: StreamingChunk[] = [];
+  return new Promise(resolve => {
+    provider.addListener('streamingUpdate', (data: StreamingChunk) => {
+      if (data.callId !== streamId) return;
+      chunks.push(data);
+      if (data.chunk === '[STREAM_COMPLETE]' || data.chunk === '[STREAM_ERROR]') resolve(chunks);
+    });
+  });
+}
+
+beforeEach(async () => {
+  fetchMock.mockReset();
+  vi.stubGlobal('fetch', fetchMock);
+  provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/', model: 'llama3.2' });
+  await provider.registerTool({
+    toolId: 'weather_tool',
+    name: 'get_weather',
+    description: 'Weather for a city',
+    parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('OpenAICompatibleProvider streaming', () => {
+  it('streams content deltas', async () => {
+    fetchMock.mockResolvedValueOnce(eventStream({ role: 'assistant' }, { content: 'Hel' }, { content: 'lo' }));
+
+    const { streamId } = await provider.generateStreaming({ prompt: 'Hi' });
+    const chunks = await collectStream(streamId);
+
+    expect(chunks.map(({ chunk }) => chunk)).toEqual(['Hel', 'lo', '[STREAM_COMPLETE]']);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/chat/completions');
+    expect(requestBody(0)).toEqual(expect.objectContaining({ model: 'llama3.2', stream: true }));
+  });
+
+  it('offers the scoped tools on streamed requests', async () => {
+    await provider.registerTool({ toolId: 'notes_tool', name: 'search_notes', description: 'Searches notes' });
+    fetchMock.mockResolvedValueOnce(eventStream({ content: 'Hi' }));
+
+    const { streamId } = await provider.generateStreaming({ prompt: 'Hi', tools: ['weather_tool'] });
+    await collectStream(streamId);
+
+    expect(requestBody(0).tools.map((tool: { function: { name: string } }) => tool.function.name)).toEqual(['get_weather']);
+  });
+
+  it('runs streamed tool calls and streams the answer that follows', async () => {
+    fetchMock
+      .mockResolvedValueOnce(eventStream(
+        { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] },
+        { tool_calls: [{ index: 0, function: { arguments: '"Lisbon"}' } }] }
+      ))
+      .mockResolvedValueOnce(eventStream({ content: 'It is ' }, { content: 'sunny.' }));
+    const calls: ToolCallEvent[] = [];
+    provider.addListener('toolCall', (event: ToolCallEvent) => {
+      calls.push(event);
+      provider.sendToolResult({ callId: event.callId, output: '21°C and sunny' });
+    });
+
+    const { streamId } = await provider.generateStreaming({ prompt: 'Weather in Lisbon?', requestId: 'request-1' });
+    const chunks = await collectStream(streamId);
+
+    expect(calls).toEqual([
+      expect.objectContaining({ toolId: 'weather_tool', payload: '{"city":"Lisbon"}', requestId: 'request-1' })
+    ]);
+    expect(chunks.map(({ chunk }) => chunk)).toEqual(['It is ', 'sunny.', '[STREAM_COMPLETE]']);
+    expect(requestBody(1).messages).toEqual([
+      { role: 'user', content: 'Weather in Lisbon?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Lisbon"}' } }]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '21°C and sunny' }
+    ]);
+  });
+
+  it('fails the stream when the model keeps calling tools', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    provider = new OpenAICompatibleProvider({ baseUrl: 'http://localhost:11434', model: 'llama3.2', maxToolRounds: 1 });
+    await provider.registerTool({ toolId: 'weather_tool', name: 'get_weather', description: 'Weather for a city' });
+    fetchMock.mockImplementation(async () => eventStream(
+      { tool_calls: [{ index: 0, id: 'call', function: { name: 'get_weather', arguments: '{"payload":"Lisbon"}' } }] }
+    ));
+    provider.addListener('toolCall', (event: ToolCallEvent) => {
+      provider.sendToolResult({ callId: event.callId, output: 'sunny' });
+    });
+
+    const { streamId } = await provider.generateStreaming({ prompt: 'Weather?' });
+    const chunks = await collectStream(streamId);
+
+    expect(chunks).toEqual([{ chunk: '[STREAM_ERROR]', callId: streamId, error: 'Tool call limit exceeded' }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+});
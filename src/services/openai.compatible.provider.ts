@@ -0,0 +1,559 @@
+import { WebPlugin } from '@capacitor/core';
+
+import type {
+  AvailabilityResult,
+  GenerationOptions,
+  LanguageModelProvider,
+  SessionInfo,
+  ToolRegistration
+} from './foundation.models.service';
+import { transcriptTurns, type TranscriptEntry } from './session.transcript';
+import { toolErrorOutput } from './tool.definition';
+
+// MARK: - Type definitions
+export interface OpenAICompatibleProviderOptions {
+  // Server root, e.g. http://localhost:11434 for Ollama or http://localhost:8080 for llama.cpp
+  baseUrl: string;
+  model: string;
+  // Sent from the client, where anyone with the app can read it; keyed servers belong behind a proxy
+  apiKey?: string;
+  headers?: Record<string, string>;
+  // Upper bound on tool round-trips for a single request
+  maxToolRounds?: number;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: ChatToolCall[];
+  tool_call_id?: string;
+}
+
+interface ChatToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+interface ChatCompletionResponse {
+  choices: { message: ChatMessage; finish_reason: string | null }[];
+}
+
+// Streamed tool calls arrive in fragments keyed by `index`; only the first carries the id and name
+interface ChatToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface ChatCompletionDelta {
+  content?: string | null;
+  tool_calls?: ChatToolCallDelta[];
+}
+
+interface ChatCompletionChunk {
+  choices: { delta: ChatCompletionDelta; finish_reason: string | null }[];
+}
+
+interface ChatRequest {
+  requestId?: string;
+  messages: ChatMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  json?: boolean;
+  // Scoped toolIds; all registered tools when omitted
+  tools?: string[];
+}
+
+interface HttpSession {
+  messages: ChatMessage[];
+  tools?: string[];
+  isResponding: boolean;
+}
+
+const summaryInstructions =
+  'Summarize the user\'s text concisely. Respond only with a JSON object of the form {"summary": string}.';
+
+// MARK: - Provider
+/**
+ * Language model provider for servers exposing the OpenAI `/v1/chat/completions` API.
+ * Implements the same contract as the native plugin so the service can route to it.
+ */
+export class OpenAICompatibleProvider extends WebPlugin implements LanguageModelProvider {
+  private readonly options: OpenAICompatibleProviderOptions;
+  private sessions: Map<string, HttpSession> = new Map();
+  private tools: Map<string, ToolRegistration> = new Map();
+  private pendingToolCalls: Map<string, (output: string) => void> = new Map();
+  private requestControllers: Map<string, AbortController> = new Map();
+  private nextId = 0;
+
+  constructor(options: OpenAICompatibleProviderOptions) {
+    super();
+    this.options = { maxToolRounds: 5, ...options, baseUrl: options.baseUrl.replace(/\/+$/, '') };
+  }
+
+  // MARK: - Availability checking
+  async checkAvailability(): Promise<AvailabilityResult> {
+    try {
+      const response = await fetch(`${this.options.baseUrl}/v1/models`, { headers: this.headers() });
+      if (!response.ok) {
+        return {
+          available: false,
+          status: 'unavailable',
+          reason: `Model server responded with HTTP ${response.status}`
+        };
+      }
+      return { available: true, status: 'available', reason: `Model server ready (${this.options.model})` };
+    } catch (error) {
+      return {
+        available: false,
+        status: 'unavailable',
+        reason: `Model server unreachable: ${(error as Error).message}`
+      };
+    }
+  }
+
+  // MARK: - Basic text generation
+  async generateText(options: {
+    prompt: string;
+    maxTokens?: number;
+    temperature?: number;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ text: string }> {
+    const text = await this.complete({
+      requestId: options.requestId,
+      messages: [{ role: 'user', content: options.prompt }],
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      tools: options.tools
+    });
+    return { text };
+  }
+
+  // MARK: - Guided generation
+  async generateSummary(options: { prompt: string; requestId?: string }): Promise<{ json: string }> {
+    const text = await this.complete({
+      requestId: options.requestId,
+      messages: [
+        { role: 'system', content: summaryInstructions },
+        { role: 'user', content: options.prompt }
+      ],
+      json: true
+    });
+    return { json: normalizeJson(text, raw => ({ summary: raw })) };
+  }
+
+  // MARK: - Tool calling
+  async echo(options: { message: string }): Promise<{ reply: string }> {
+    const text = await this.complete({
+      messages: [
+        { role: 'system', content: 'Repeat the user\'s message back, prefixed with "Echo: ".' },
+        { role: 'user', content: options.message }
+      ]
+    });
+    return { reply: text };
+  }
+
+  // MARK: - Dynamic schema generation
+  async generateDynamic(options: { prompt: string; schema: string; requestId?: string }): Promise<{ json: string }> {
+    const text = await this.complete({
+      requestId: options.requestId,
+      messages: [
+        {
+          role: 'system',
+          content: `Respond only with a JSON object that conforms to this JSON schema:\n${options.schema}`
+        },
+        { role: 'user', content: options.prompt }
+      ],
+      json: true
+    });
+    return { json: normalizeJson(text) };
+  }
+
+  // MARK: - Instructions-based generation
+  async generateWithInstructions(options: {
+    prompt: string;
+    instructions: string;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ text: string }> {
+    const messages: ChatMessage[] = [{ role: 'user', content: options.prompt }];
+    if (options.instructions) {
+      messages.unshift({ role: 'system', content: options.instructions });
+    }
+    return { text: await this.complete({ requestId: options.requestId, messages, tools: options.tools }) };
+  }
+
+  // MARK: - Streaming generation
+  // Chunks are emitted as deltas like the native plugin; tool calls run between rounds of the same stream
+  async generateStreaming(options: {
+    prompt: string;
+    maxTokens?: number;
+    temperature?: number;
+    requestId?: string;
+    tools?: string[];
+  }): Promise<{ streamId: string }> {
+    const streamId = this.makeId('stream');
+    const requestId = options.requestId ?? streamId;
+    const controller = this.startRequest(requestId);
+
+    const request: ChatRequest = {
+      requestId,
+      messages: [{ role: 'user', content: options.prompt }],
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      tools: options.tools
+    };
+
+    let response: Response;
+    try {
+      response = await this.post(request, true);
+    } catch (error) {
+      this.finishRequest(requestId);
+      throw error;
+    }
+
+    (async () => {
+      try {
+        await this.streamRounds(request, response, streamId);
+        this.notifyListeners('streamingUpdate', { chunk: '[STREAM_COMPLETE]', callId: streamId });
+      } catch (error) {
+        // A cancelled stream just stops; its listener is already gone
+        if (!controller.signal.aborted) {
+          console.error('Streaming from model server failed:', error);
+          this.notifyListeners('streamingUpdate', {
+            chunk: '[STREAM_ERROR]',
+            callId: streamId,
+            error: (error as Error).message
+          });
+        }
+      } finally {
+        this.finishRequest(requestId);
+      }
+    })();
+
+    return { streamId };
+  }
+
+  // MARK: - Session management
+  async createSession(options: {
+    instructions?: string;
+    history?: TranscriptEntry[];
+    tools?: string[];
+  }): Promise<{ sessionId: string }> {
+    const sessionId = this.makeId('session');
+    const messages: ChatMessage[] = options.instructions ? [{ role: 'system', content: options.instructions }] : [];
+    for (const { prompt, response } of transcriptTurns(options.history ?? [])) {
+      messages.push({ role: 'user', content: prompt }, { role: 'assistant', content: response });
+    }
+    this.sessions.set(sessionId, {
+      messages,
+      tools: options.tools,
+      isResponding: false
+    });
+    return { sessionId };
+  }
+
+  async continueConversation(options: {
+    sessionId: string;
+    prompt: string;
+    requestId?: string;
+  }): Promise<{ text: string }> {
+    const session = this.sessions.get(options.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+
+    session.isResponding = true;
+    try {
+      const messages: ChatMessage[] = [...session.messages, { role: 'user', content: options.prompt }];
+      const text = await this.complete({ requestId: options.requestId, messages, tools: session.tools });
+      session.messages = [...messages, { role: 'assistant', content: text }];
+      return { text };
+    } finally {
+      session.isResponding = false;
+    }
+  }
+
+  async deleteSession(options: { sessionId: string }): Promise<{ success: boolean }> {
+    return { success: this.sessions.delete(options.sessionId) };
+  }
+
+  // MARK: - Cancellation
+  async cancelGeneration(options: { requestId: string }): Promise<{ success: boolean }> {
+    const controller = this.requestControllers.get(options.requestId);
+    controller?.abort();
+    return { success: !!controller };
+  }
+
+  async getSessionInfo(options: { sessionId: string }): Promise<SessionInfo> {
+    const session = this.sessions.get(options.sessionId);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    return {
+      sessionId: options.sessionId,
+      isResponding: session.isResponding,
+      messageCount: session.messages.filter(message => message.role === 'user').length
+    };
+  }
+
+  // MARK: - Performance optimization
+  async prewarmSession(): Promise<{ success: boolean }> {
+    return { success: true };
+  }
+
+  // MARK: - Advanced generation with options
+  async generateWithOptions(options: GenerationOptions): Promise<{ text: string }> {
+    const text = await this.complete({
+      requestId: options.requestId,
+      messages: [{ role: 'user', content: options.prompt }],
+      maxTokens: options.maxTokens,
+      temperature: options.temperature,
+      tools: options.tools
+    });
+    return { text };
+  }
+
+  // MARK: - Dynamic tool registration
+  async registerTool(options: ToolRegistration): Promise<{ success: boolean }> {
+    if (!this.tools.has(options.toolId)) {
+      this.tools.set(options.toolId, { ...options });
+    }
+    return { success: true };
+  }
+
+  async unregisterTool(options: { toolId: string }): Promise<{ success: boolean }> {
+    return { success: this.tools.delete(options.toolId) };
+  }
+
+  async sendToolResult(options: { callId: string; output: string }): Promise<{ success: boolean }> {
+    const resolve = this.pendingToolCalls.get(options.callId);
+    if (resolve) {
+      this.pendingToolCalls.delete(options.callId);
+      resolve(options.output);
+    }
+    return { success: true };
+  }
+
+  // MARK: - HTTP helpers
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...this.options.headers };
+    if (this.options.apiKey) {
+      headers.Authorization = `Bearer ${this.options.apiKey}`;
+    }
+    return headers;
+  }
+
+  private async post(request: ChatRequest, stream: boolean): Promise<Response> {
+    const body: Record<string, unknown> = {
+      model: this.options.model,
+      messages: request.messages,
+      stream
+    };
+    if (request.maxTokens !== undefined) body.max_tokens = request.maxTokens;
+    if (request.temperature !== undefined) body.temperature = request.temperature;
+    if (request.json) body.response_format = { type: 'json_object' };
+    const tools = this.scopedTools(request.tools);
+    if (tools.length > 0) {
+      body.tools = tools.map(toolDefinition);
+    }
+
+    const response = await fetch(`${this.options.baseUrl}/v1/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal: request.requestId ? this.requestControllers.get(request.requestId)?.signal : undefined
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Model server responded with HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return response;
+  }
+
+  // Runs a chat completion, resolving tool calls through the `toolCall` bridge
+  private async complete(request: ChatRequest): Promise<string> {
+    if (!request.requestId) {
+      return this.completeRounds(request);
+    }
+
+    this.startRequest(request.requestId);
+    try {
+      return await this.completeRounds(request);
+    } finally {
+      this.finishRequest(request.requestId);
+    }
+  }
+
+  private async completeRounds(request: ChatRequest): Promise<string> {
+    const messages = [...request.messages];
+
+    for (let round = 0; round <= (this.options.maxToolRounds ?? 0); round++) {
+      const response = await this.post({ ...request, messages }, false);
+      const data = await response.json() as ChatCompletionResponse;
+      const message = data.choices[0]?.message;
+      if (!message) {
+        throw new Error('Model server returned no choices');
+      }
+
+      if (!message.tool_calls || message.tool_calls.length === 0) {
+        return message.content ?? '';
+      }
+
+      messages.push(message);
+      for (const toolCall of message.tool_calls) {
+        messages.push({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: await this.callTool(toolCall, request)
+        });
+      }
+    }
+
+    throw new Error('Tool call limit exceeded');
+  }
+
+  // Streaming counterpart of `completeRounds`, starting from the already opened first response
+  private async streamRounds(request: ChatRequest, firstResponse: Response, streamId: string): Promise<void> {
+    const messages = [...request.messages];
+    let response = firstResponse;
+
+    for (let round = 0; round <= (this.options.maxToolRounds ?? 0); round++) {
+      if (round > 0) response = await this.post({ ...request, messages }, true);
+
+      let content = '';
+      const toolCalls: ChatToolCall[] = [];
+      for await (const delta of readEventStream(response)) {
+        if (delta.content) {
+          content += delta.content;
+          this.notifyListeners('streamingUpdate', { chunk: delta.content, callId: streamId });
+        }
+        for (const part of delta.tool_calls ?? []) {
+          mergeToolCallDelta(toolCalls, part);
+        }
+      }
+
+      if (toolCalls.length === 0) return;
+
+      messages.push({ role: 'assistant', content: content || null, tool_calls: toolCalls });
+      for (const toolCall of toolCalls) {
+        messages.push({
+          role: 'tool',
+          tool_call_id: toolCall.id,
+          content: await this.callTool(toolCall, request)
+        });
+      }
+    }
+
+    throw new Error('Tool call limit exceeded');
+  }
+
+  private scopedTools(scope: string[] | undefined): ToolRegistration[] {
+    return Array.from(this.tools.values()).filter(tool => !scope || scope.includes(tool.toolId));
+  }
+
+  private async callTool(toolCall: ChatToolCall, request: ChatRequest): Promise<string> {
+    const tool = this.scopedTools(request.tools).find(candidate => candidate.name === toolCall.function.name);
+    if (!tool) {
+      return toolErrorOutput('unknownTool', `No tool named ${toolCall.function.name} is available`);
+    }
+
+    // Tools with a schema get their arguments as-is; free-form tools get the unwrapped payload
+    let payload = toolCall.function.arguments;
+    if (!tool.parameters) {
+      try {
+        const args = JSON.parse(payload) as { payload?: unknown };
+        if (typeof args.payload === 'string') payload = args.payload;
+      } catch {
+        // Pass malformed arguments through untouched
+      }
+    }
+
+    const callId = this.makeId('call');
+    const output = new Promise<string>(resolve => this.pendingToolCalls.set(callId, resolve));
+    this.notifyListeners('toolCall', { toolId: tool.toolId, callId, payload, requestId: request.requestId });
+    return output;
+  }
+
+  private startRequest(requestId: string): AbortController {
+    const controller = new AbortController();
+    this.requestControllers.set(requestId, controller);
+    return controller;
+  }
+
+  private finishRequest(requestId: string): void {
+    this.requestControllers.delete(requestId);
+  }
+
+  private makeId(prefix: string): string {
+    this.nextId++;
+    return `http_${prefix}_${this.nextId}`;
+  }
+}
+
+// MARK: - Helpers
+// Tools without a schema mirror the native JSToolArgs shape: a single free-form `payload` argument
+function toolDefinition(tool: ToolRegistration) {
+  return {
+    type: 'function',
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters ?? {
+        type: 'object',
+        properties: { payload: { type: 'string' } },
+        required: ['payload']
+      }
+    }
+  };
+}
+
+function normalizeJson(text: string, wrap?: (raw: string) => unknown): string {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '').trim();
+  try {
+    return JSON.stringify(JSON.parse(trimmed));
+  } catch (error) {
+    if (wrap) return JSON.stringify(wrap(text));
+    throw error;
+  }
+}
+
+function mergeToolCallDelta(toolCalls: ChatToolCall[], part: ChatToolCallDelta): void {
+  const toolCall = toolCalls[part.index] ?? { id: '', type: 'function', function: { name: '', arguments: '' } };
+  toolCalls[part.index] = toolCall;
+  if (part.id) toolCall.id = part.id;
+  toolCall.function.name += part.function?.name ?? '';
+  toolCall.function.arguments += part.function?.arguments ?? '';
+}
+
+async function* readEventStream(response: Response): AsyncGenerator<ChatCompletionDelta> {
+  if (!response.body) {
+    throw new Error('Model server returned an empty stream');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') return;
+
+      const chunk = JSON.parse(payload) as ChatCompletionChunk;
+      const delta = chunk.choices[0]?.delta;
+      if (delta) yield delta;
+    }
+  }
+}
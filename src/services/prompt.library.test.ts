@@ -0,0 +1,102 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { PromptLibrary, type PromptTemplateDraft } from './prompt.library';
+
+let storage: Map<string, string>;
+let library: PromptLibrary;
+
+const shippedInstructed = (): PromptTemplateDraft => ({
+  description: 'Summary scenario prompt when system instructions are set',
+  body: '{{> style.language}}Please summarize the following text: {{text}}',
+  variables: [{ name: 'text', type: 'string', required: true, example: 'The meeting moved to Thursday at 10.' }]
+});
+
+beforeEach(() => {
+  storage = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value)
+  });
+  library = new PromptLibrary();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('editing built-in templates', () => {
+  it('accepts an edit that keeps the variables the app passes', () => {
+    const draft = { ...shippedInstructed(), body: 'Summarize in one line: {{text}}' };
+    expect(library.validate('summary.instructed', draft)).toEqual([]);
+    library.save('summary.instructed', draft);
+    expect(library.render('summary.instructed', { text: 'Tea at 4.' })).toBe('Summarize in one line: Tea at 4.');
+  });
+
+  it('rejects dropping or retyping a variable the app passes', () => {
+    expect(library.validate('summary.instructed', { ...shippedInstructed(), body: 'Summarize.', variables: [] }))
+      .toEqual(['The app renders summary.instructed with text, so it must stay declared']);
+    expect(library.validate('summary.instructed', {
+      ...shippedInstructed(),
+      variables: [{ name: 'text', type: 'number', required: true }]
+    })).toEqual(['The app passes text as a string']);
+  });
+
+  it('rejects new required variables the app cannot supply', () => {
+    const draft = {
+      ...shippedInstructed(),
+      body: '{{tone}} summary: {{text}}',
+      variables: [...shippedInstructed().variables, { name: 'tone', type: 'string' as const, required: true }]
+    };
+    expect(library.validate('summary.instructed', draft))
+      .toEqual(['The app does not pass tone, so it needs a default to be required']);
+    expect(library.validate('summary.instructed', {
+      ...draft,
+      variables: [...shippedInstructed().variables, { name: 'tone', type: 'string', required: true, default: 'Short' }]
+    })).toEqual([]);
+  });
+
+  it('rejects a partial edit that breaks the templates including it', () => {
+    const draft = {
+      description: 'Partial asking for replies in a given language',
+      body: '{{language}}{{> summary.instructed}}',
+      variables: [{ name: 'language', type: 'string' as const }]
+    };
+    expect(library.validate('style.language', draft)).toEqual([
+      'The template does not render with the values the app passes: The variable text is required'
+    ]);
+    expect(() => library.save('style.language', draft)).toThrow('The variable text is required');
+  });
+
+  it('renders the shipped version when a stored edit fails to render', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    // Saved before edits were validated: the body needs a value the app never passes
+    storage.set('foundation-models.prompt-templates', JSON.stringify({
+      'summary.instructed': {
+        name: 'summary.instructed',
+        builtIn: true,
+        versions: [{ ...shippedInstructed(), body: '{{tone}}: {{text}}', variables: [
+          ...shippedInstructed().variables, { name: 'tone', type: 'string', required: true }
+        ], version: 2, savedAt: 1 }]
+      }
+    }));
+
+    expect(library.render('summary.instructed', { text: 'Tea at 4.' })).toBe('Please summarize the following text: Tea at 4.');
+    expect(warn).toHaveBeenCalledOnce();
+  });
+
+  it('still reports values the shipped version rejects', () => {
+    expect(() => library.render('summary.instructed', {} as { text: string })).toThrow('The variable text is required');
+  });
+});
+
+describe('custom templates', () => {
+  it('do not fall back when rendering fails', () => {
+    library.save('email.reply', {
+      description: 'Reply to an email',
+      body: 'Reply to: {{email}}',
+      variables: [{ name: 'email', type: 'string', required: true }]
+    });
+    expect(() => library.render('email.reply', {})).toThrow('The variable email is required');
+  });
+});
@@ -0,0 +1,284 @@
+import {
+  PromptTemplateError,
+  referencedPartials,
+  renderTemplate,
+  validatePromptTemplate,
+  type PromptTemplateSource,
+  type PromptValues
+} from './prompt.template';
+import { TypedEventEmitter } from './typed.event.emitter';
+
+// MARK: - Type definitions
+export interface PromptTemplateVersion extends PromptTemplateSource {
+  version: number;
+  description: string;
+  savedAt: number;
+  // What changed, shown in the version history
+  note?: string;
+}
+
+export interface PromptTemplate {
+  name: string;
+  builtIn: boolean;
+  // Oldest first; the last entry is the version that renders
+  versions: PromptTemplateVersion[];
+}
+
+export type PromptTemplateDraft = Pick<PromptTemplateVersion, 'description' | 'body' | 'variables' | 'note'>;
+
+// Values of the built-in templates, so `renderPrompt` checks them at compile time
+export interface BuiltInPromptValues {
+  'style.language': { language?: string };
+  'summary.concise': { text: string; maxSentences?: number; language?: string };
+  'summary.instructed': { text: string; language?: string };
+  'structured.schemaHint': { request: string; schema: string };
+  'conversation.compaction': { transcript: string; summary?: string };
+}
+
+// Any template name; built-in names get their values checked
+export type PromptName = keyof BuiltInPromptValues | (string & {});
+
+export type PromptValuesFor<N extends PromptName> = N extends keyof BuiltInPromptValues
+  ? BuiltInPromptValues[N]
+  : PromptValues;
+
+export type PromptPreview = { ok: true; text: string } | { ok: false; error: string };
+
+export interface PromptLibraryEvents {
+  // All templates after every change, sorted by name
+  change: PromptTemplate[];
+}
+
+const STORAGE_KEY = 'foundation-models.prompt-templates';
+const TEMPLATE_NAME = /^[A-Za-z_][\w-]*(\.[\w-]+)*$/;
+
+// MARK: - Built-in templates
+const BUILT_IN_TEMPLATES: Record<keyof BuiltInPromptValues, PromptTemplateDraft> = {
+  'style.language': {
+    description: 'Partial asking for replies in a given language',
+    body: '{{#if language}}\nRespond in {{language}}.\n{{/if}}\n',
+    variables: [{ name: 'language', type: 'string', description: 'Language of the reply', example: 'German' }]
+  },
+  'summary.concise': {
+    description: 'Summary scenario fallback when guided summary generation fails',
+    body: '{{> style.language}}Please provide a concise summary of the following text'
+      + '{{#if maxSentences}} in at most {{maxSentences}} sentences{{/if}}:\n\n{{text}}',
+    variables: [
+      { name: 'text', type: 'string', required: true, description: 'Text to summarize', example: 'Capacitor lets web apps call native APIs such as Apple\'s on-device language model.' },
+      { name: 'maxSentences', type: 'number', description: 'Upper bound on the summary length', example: 2 }
+    ]
+  },
+  'summary.instructed': {
+    description: 'Summary scenario prompt when system instructions are set',
+    body: '{{> style.language}}Please summarize the following text: {{text}}',
+    variables: [
+      { name: 'text', type: 'string', required: true, description: 'Text to summarize', example: 'The meeting moved to Thursday at 10.' }
+    ]
+  },
+  'structured.schemaHint': {
+    description: 'Structured output request with the schema spelled out, for instruction-based generation',
+    body: '{{request}}\n\nPlease respond according to this JSON schema: {{schema}}',
+    variables: [
+      { name: 'request', type: 'string', required: true, example: 'Name three primary colors.' },
+      { name: 'schema', type: 'string', required: true, description: 'JSON schema text', example: '{"type":"object","properties":{"colors":{"type":"array"}}}' }
+    ]
+  },
+  'conversation.compaction': {
+    description: 'Summarizes older turns when a conversation runs out of context',
+    body: 'Summarize this conversation so it can be continued later. Keep names, facts, '
+      + 'decisions and open questions.\n\n{{#if summary}}\nEarlier summary: {{summary}}\n{{/if}}\n{{transcript}}',
+    variables: [
+      { name: 'transcript', type: 'string', required: true, description: 'Turns as "User: …" and "Assistant: …" lines', example: 'User: Plan a trip to Lisbon\nAssistant: For how many days?' },
+      { name: 'summary', type: 'string', description: 'Summary from an earlier compaction', example: 'The user is planning a trip in May.' }
+    ]
+  }
+};
+
+// Names come from users, so `constructor` and the like must not resolve to prototype members
+const ownEntry = <T>(record: Record<string, T>, key: string): T | undefined =>
+  Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined;
+
+const builtInTemplate = (name: keyof BuiltInPromptValues): PromptTemplate => ({
+  name,
+  builtIn: true,
+  versions: [{ ...BUILT_IN_TEMPLATES[name], version: 1, savedAt: 0 }]
+});
+
+// MARK: - Prompt library
+/**
+ * Named prompt templates with their version history. Built-in templates ship with the app;
+ * edits and new templates are kept in localStorage, and every save adds a version instead
+ * of overwriting, so earlier wordings can be restored.
+ */
+export class PromptLibrary {
+  private events = new TypedEventEmitter<PromptLibraryEvents>();
+
+  on<K extends keyof PromptLibraryEvents>(event: K, listener: (payload: PromptLibraryEvents[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  list(): PromptTemplate[] {
+    const stored = this.read();
+    const builtIns = (Object.keys(BUILT_IN_TEMPLATES) as (keyof BuiltInPromptValues)[])
+      .map(name => ownEntry(stored, name) ?? builtInTemplate(name));
+    const custom = Object.values(stored).filter(template => !template.builtIn);
+    return [...builtIns, ...custom].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  get(name: string): PromptTemplate | undefined {
+    const stored = ownEntry(this.read(), name);
+    if (stored) return stored;
+    return ownEntry(BUILT_IN_TEMPLATES, name) ? builtInTemplate(name as keyof BuiltInPromptValues) : undefined;
+  }
+
+  // The version that renders
+  current(name: string): PromptTemplateVersion | undefined {
+    const versions = this.get(name)?.versions;
+    return versions?.[versions.length - 1];
+  }
+
+  /**
+   * Throws `PromptTemplateError` for unknown templates and values that do not match the
+   * declarations. An edited built-in template that fails to render, e.g. because a partial
+   * it includes was edited since, falls back to the version that ships with the app.
+   */
+  render<N extends PromptName>(name: N, values: PromptValuesFor<N>): string {
+    const template = this.current(name);
+    if (!template) throw new PromptTemplateError(`There is no template named ${name}`);
+    try {
+      return renderTemplate(template, values as PromptValues, partial => this.current(partial), [name]);
+    } catch (error) {
+      const shipped = ownEntry(BUILT_IN_TEMPLATES, name);
+      if (!shipped) throw error;
+      const text = renderTemplate(shipped, values as PromptValues, partial => ownEntry(BUILT_IN_TEMPLATES, partial), [name]);
+      console.warn(`The edited template ${name} failed to render, using the built-in version:`, error);
+      return text;
+    }
+  }
+
+  /**
+   * Renders a draft without saving it. Variables without a value use their `example`, so
+   * a template can be previewed before any values are entered.
+   */
+  preview(draft: PromptTemplateSource, values: PromptValues = {}, name?: string): PromptPreview {
+    const withExamples: PromptValues = { ...values };
+    for (const variable of draft.variables) {
+      if (withExamples[variable.name] === undefined || withExamples[variable.name] === '') {
+        withExamples[variable.name] = variable.example;
+      }
+    }
+    const problems = validatePromptTemplate(draft);
+    if (problems.length > 0) return { ok: false, error: problems.join('. ') };
+
+    try {
+      const resolve = (partial: string) => this.current(partial);
+      return { ok: true, text: renderTemplate(draft, withExamples, resolve, name ? [name] : []) };
+    } catch (error) {
+      return { ok: false, error: (error as Error).message };
+    }
+  }
+
+  // Returns a list of problems with the draft; an empty list means it can be saved under `name`
+  validate(name: string, draft: PromptTemplateDraft): string[] {
+    const problems: string[] = [];
+    if (!TEMPLATE_NAME.test(name)) {
+      problems.push('Template names are dot-separated words of letters, digits, _ and -, e.g. email.reply');
+    }
+    if (!draft.description.trim()) problems.push('The description says where the template is used and is required');
+    problems.push(...validatePromptTemplate(draft));
+    try {
+      for (const partial of referencedPartials(draft.body)) {
+        if (partial === name) problems.push('A template cannot include itself');
+        else if (!this.get(partial)) problems.push(`The partial ${partial} does not exist`);
+      }
+    } catch {
+      // Syntax errors are already reported by validatePromptTemplate
+    }
+
+    const shipped = ownEntry(BUILT_IN_TEMPLATES, name);
+    if (shipped) problems.push(...this.validateBuiltInEdit(name, shipped, draft, problems.length === 0));
+    return problems;
+  }
+
+  // The app renders built-in templates with fixed values, so an edit has to keep accepting them
+  private validateBuiltInEdit(name: string, shipped: PromptTemplateDraft, draft: PromptTemplateDraft, checkRender: boolean): string[] {
+    const problems: string[] = [];
+    for (const variable of shipped.variables) {
+      const declared = draft.variables.find(candidate => candidate.name === variable.name);
+      if (!declared) {
+        problems.push(`The app renders ${name} with ${variable.name}, so it must stay declared`);
+      } else if (declared.type !== variable.type) {
+        problems.push(`The app passes ${variable.name} as a ${variable.type}`);
+      }
+    }
+    for (const variable of draft.variables) {
+      if (variable.required && variable.default === undefined && !shipped.variables.some(candidate => candidate.name === variable.name)) {
+        problems.push(`The app does not pass ${variable.name}, so it needs a default to be required`);
+      }
+    }
+    if (!checkRender || problems.length > 0) return problems;
+
+    // Render with the values the app would pass, taken from the shipped examples
+    const values = Object.fromEntries(shipped.variables.map(variable => [variable.name, variable.example]));
+    const preview = this.preview({ body: draft.body, variables: draft.variables }, values, name);
+    if (!preview.ok) problems.push(`The template does not render with the values the app passes: ${preview.error}`);
+    return problems;
+  }
+
+  // Adds a version, creating the template when `name` is new
+  save(name: string, draft: PromptTemplateDraft): PromptTemplate {
+    const problems = this.validate(name, draft);
+    if (problems.length > 0) throw new Error(problems.join('. '));
+
+    const existing = this.get(name);
+    const versions = existing?.versions ?? [];
+    const template: PromptTemplate = {
+      name,
+      builtIn: existing?.builtIn ?? false,
+      versions: [...versions, {
+        ...draft,
+        version: (versions[versions.length - 1]?.version ?? 0) + 1,
+        savedAt: Date.now()
+      }]
+    };
+    this.write({ ...this.read(), [name]: template });
+    return template;
+  }
+
+  // Makes an earlier version current again by saving it as the newest version
+  restore(name: string, version: number): PromptTemplate {
+    const earlier = this.get(name)?.versions.find(candidate => candidate.version === version);
+    if (!earlier) throw new Error(`${name} has no version ${version}`);
+
+    const { description, body, variables } = earlier;
+    return this.save(name, { description, body, variables, note: `Restored version ${version}` });
+  }
+
+  // Built-in templates cannot be deleted; restore version 1 to undo edits instead
+  delete(name: string): void {
+    const template = this.get(name);
+    if (!template) return;
+    if (template.builtIn) throw new Error(`${name} is built in and cannot be deleted`);
+
+    const stored = this.read();
+    delete stored[name];
+    this.write(stored);
+  }
+
+  private read(): Record<string, PromptTemplate> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) as Record<string, PromptTemplate> : {};
+    } catch (error) {
+      console.warn('Failed to read prompt templates:', error);
+      return {};
+    }
+  }
+
+  private write(templates: Record<string, PromptTemplate>): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(templates));
+    this.events.emit('change', this.list());
+  }
+}
+
+export const promptLibrary = new PromptLibrary();
@@ -0,0 +1,239 @@
+// MARK: - Type definitions
+export type PromptValue = string | number | boolean;
+
+export type PromptValues = Record<string, PromptValue | undefined>;
+
+export interface PromptVariable {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+  // Required variables without a default must be passed to every render
+  required?: boolean;
+  default?: PromptValue;
+  description?: string;
+  // Value the preview uses when none is entered
+  example?: PromptValue;
+}
+
+export interface PromptTemplateSource {
+  body: string;
+  variables: PromptVariable[];
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string; position: number }
+  | { type: 'partial'; name: string; position: number }
+  | { type: 'condition'; name: string; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[]; position: number };
+
+/**
+ * Raised for malformed templates and for values that do not match the declared variables.
+ * `position` is the zero-based offset in the template body, when the error points at a tag.
+ */
+export class PromptTemplateError extends Error {
+  position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} at position ${position + 1}`);
+    this.name = 'PromptTemplateError';
+    this.position = position;
+  }
+}
+
+const TAG = /\{\{(.*?)\}\}/g;
+const TAG_CONTENT = /^\s*([#/>]?)\s*([\w.-]*)\s*([\w.-]*)\s*$/;
+const NAME = /^[A-Za-z_][\w.-]*$/;
+
+// MARK: - Parsing
+/**
+ * Parses the template syntax: `{{name}}` inserts a variable, `{{> other.template}}` a partial,
+ * and `{{#if name}} … {{else}} … {{/if}}` or `{{#unless name}} … {{/unless}}` keep a block
+ * depending on whether the variable is set. Blocks nest, and block tags on a line of their
+ * own take the line with them.
+ */
+function parseTemplate(body: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Open conditions, innermost last; `target` is the branch new nodes go into
+  const stack: { node: Extract<TemplateNode, { type: 'condition' }>; keyword: string; inElse: boolean }[] = [];
+  const target = (): TemplateNode[] => {
+    const open = stack[stack.length - 1];
+    if (!open) return root;
+    return open.inElse ? open.node.otherwise : open.node.then;
+  };
+
+  let last = 0;
+  for (const match of body.matchAll(TAG)) {
+    const position = match.index ?? 0;
+    const end = position + match[0].length;
+    const parts = TAG_CONTENT.exec(match[1]);
+    if (!parts) throw new PromptTemplateError(`Malformed tag ${match[0]}`, position);
+    const [, sigil, word, argument] = parts;
+
+    // Block tags alone on their line take the whole line, newline included
+    let textEnd = position;
+    let next = end;
+    if (sigil === '#' || sigil === '/' || word === 'else') {
+      const lineStart = body.lastIndexOf('\n', position - 1) + 1;
+      const lineEnd = body.indexOf('\n', end);
+      const restEnd = lineEnd === -1 ? body.length : lineEnd;
+      if (lineStart >= last && !body.slice(lineStart, position).trim() && !body.slice(end, restEnd).trim()) {
+        textEnd = lineStart;
+        next = lineEnd === -1 ? body.length : lineEnd + 1;
+      }
+    }
+    if (textEnd > last) target().push({ type: 'text', text: body.slice(last, textEnd) });
+    last = next;
+
+    if (sigil === '#') {
+      if (word !== 'if' && word !== 'unless') throw new PromptTemplateError(`Unknown block {{#${word}}}`, position);
+      if (!NAME.test(argument)) throw new PromptTemplateError(`{{#${word}}} needs a variable name`, position);
+      const node: Extract<TemplateNode, { type: 'condition' }> = {
+        type: 'condition', name: argument, negate: word === 'unless', then: [], otherwise: [], position
+      };
+      target().push(node);
+      stack.push({ node, keyword: word, inElse: false });
+    } else if (sigil === '/') {
+      const open = stack.pop();
+      if (!open) throw new PromptTemplateError(`{{/${word}}} has no matching {{#${word}}}`, position);
+      if (open.keyword !== word) throw new PromptTemplateError(`{{/${word}}} closes {{#${open.keyword}}}`, position);
+    } else if (sigil === '>') {
+      if (!NAME.test(word)) throw new PromptTemplateError('{{> }} needs a template name', position);
+      target().push({ type: 'partial', name: word, position });
+    } else if (word === 'else' && !argument) {
+      const open = stack[stack.length - 1];
+      if (!open || open.inElse) throw new PromptTemplateError('{{else}} outside an {{#if}} block', position);
+      open.inElse = true;
+    } else {
+      if (!NAME.test(word) || argument) throw new PromptTemplateError(`Malformed tag ${match[0]}`, position);
+      target().push({ type: 'variable', name: word, position });
+    }
+  }
+
+  const unclosed = stack.pop();
+  if (unclosed) {
+    throw new PromptTemplateError(`{{#${unclosed.keyword} ${unclosed.node.name}}} is never closed`, unclosed.node.position);
+  }
+  if (last < body.length) root.push({ type: 'text', text: body.slice(last) });
+  return root;
+}
+
+// Variable names a template body refers to, in order of first use
+export function referencedVariables(body: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'variable') names.add(node.name);
+      if (node.type === 'condition') {
+        names.add(node.name);
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTemplate(body));
+  return [...names];
+}
+
+// Partial names a template body includes
+export function referencedPartials(body: string): string[] {
+  const names = new Set<string>();
+  const visit = (nodes: TemplateNode[]) => {
+    for (const node of nodes) {
+      if (node.type === 'partial') names.add(node.name);
+      if (node.type === 'condition') {
+        visit(node.then);
+        visit(node.otherwise);
+      }
+    }
+  };
+  visit(parseTemplate(body));
+  return [...names];
+}
+
+// MARK: - Validation
+/**
+ * Returns a list of problems with a template; an empty list means it can be saved. Checks
+ * the syntax, the variable declarations and that the body only uses declared variables.
+ */
+export function validatePromptTemplate(source: PromptTemplateSource): string[] {
+  const problems: string[] = [];
+  const declared = new Set<string>();
+
+  for (const variable of source.variables) {
+    if (!NAME.test(variable.name)) {
+      problems.push(`"${variable.name}" is not a valid variable name`);
+    } else if (declared.has(variable.name)) {
+      problems.push(`The variable ${variable.name} is declared twice`);
+    }
+    declared.add(variable.name);
+    if (variable.default !== undefined && typeof variable.default !== variable.type) {
+      problems.push(`The default of ${variable.name} must be a ${variable.type}`);
+    }
+  }
+
+  try {
+    for (const name of referencedVariables(source.body)) {
+      if (!declared.has(name)) problems.push(`The template uses ${name}, which is not declared`);
+    }
+  } catch (error) {
+    problems.push((error as Error).message);
+  }
+  return problems;
+}
+
+// MARK: - Rendering
+// Applies defaults and checks the values against the declarations
+function resolveValues(variables: PromptVariable[], values: PromptValues): PromptValues {
+  const resolved: PromptValues = { ...values };
+  for (const variable of variables) {
+    const value = values[variable.name] ?? variable.default;
+    if (value === undefined) {
+      if (variable.required) throw new PromptTemplateError(`The variable ${variable.name} is required`);
+      continue;
+    }
+    if (typeof value !== variable.type || (typeof value === 'number' && !Number.isFinite(value))) {
+      throw new PromptTemplateError(`The variable ${variable.name} must be a ${variable.type}, got ${JSON.stringify(value)}`);
+    }
+    resolved[variable.name] = value;
+  }
+  return resolved;
+}
+
+const isSet = (value: PromptValue | undefined): boolean =>
+  typeof value === 'string' ? value.trim() !== '' : Boolean(value);
+
+/**
+ * Renders a template with `values`. Partials are looked up with `resolvePartial` and render
+ * with the same values, checked against their own declarations. Including a template from
+ * itself, directly or through other partials, is an error.
+ */
+export function renderTemplate(
+  source: PromptTemplateSource,
+  values: PromptValues,
+  resolvePartial: (name: string) => PromptTemplateSource | undefined = () => undefined,
+  including: string[] = []
+): string {
+  const resolved = resolveValues(source.variables, values);
+
+  const render = (nodes: TemplateNode[]): string => nodes.map(node => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'variable': {
+        const value = resolved[node.name];
+        return value === undefined ? '' : String(value);
+      }
+      case 'condition':
+        return render(isSet(resolved[node.name]) !== node.negate ? node.then : node.otherwise);
+      case 'partial': {
+        if (including.includes(node.name)) {
+          throw new PromptTemplateError(`The partial ${node.name} includes itself`, node.position);
+        }
+        const partial = resolvePartial(node.name);
+        if (!partial) throw new PromptTemplateError(`There is no template named ${node.name}`, node.position);
+        return renderTemplate(partial, resolved, resolvePartial, [...including, node.name]);
+      }
+    }
+  }).join('');
+
+  return render(parseTemplate(source.body));
+}
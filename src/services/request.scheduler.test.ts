@@ -0,0 +1,151 @@
+import { describe, expect, it, vi } from 'vitest';
+
+import { RequestScheduler, type QueueState } from './request.scheduler';
+
+// A task that runs until the test settles it, recording when it started
+function task(log: string[], name: string) {
+  let settle!: { resolve: (value: string) => void; reject: (reason: unknown) => void };
+  const promise = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  const run = vi.fn(() => {
+    log.push(name);
+    return promise;
+  });
+  return { run, ...settle };
+}
+
+// Lets settled runs release their slots
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('RequestScheduler', () => {
+  it('runs requests with the same key one at a time', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 3 });
+    const log: string[] = [];
+    const first = task(log, 'first');
+    const second = task(log, 'second');
+    const other = task(log, 'other');
+
+    const firstResult = scheduler.schedule(first.run, { key: 'session-a' });
+    const secondResult = scheduler.schedule(second.run, { key: 'session-a' });
+    scheduler.schedule(other.run, { key: 'session-b' });
+    expect(log).toEqual(['first', 'other']);
+    expect(scheduler.getQueueLength('session-a')).toBe(1);
+
+    first.resolve('one');
+    await expect(firstResult).resolves.toBe('one');
+    await flush();
+    expect(log).toEqual(['first', 'other', 'second']);
+
+    second.resolve('two');
+    await expect(secondResult).resolves.toBe('two');
+  });
+
+  it('starts no more than maxConcurrent requests', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    const log: string[] = [];
+    const tasks = ['a', 'b', 'c', 'd'].map(name => task(log, name));
+    tasks.forEach(({ run }) => scheduler.schedule(run));
+
+    expect(log).toEqual(['a', 'b']);
+    expect(scheduler.getState()).toEqual({ pending: 2, running: 2, pendingByKey: {} });
+
+    tasks[1].resolve('b');
+    await flush();
+    expect(log).toEqual(['a', 'b', 'c']);
+
+    scheduler.setMaxConcurrent(3);
+    expect(log).toEqual(['a', 'b', 'c', 'd']);
+    expect(scheduler.getState().running).toBe(3);
+  });
+
+  it('starts interactive requests before background ones, each in scheduling order', async () => {
+    const scheduler = new RequestScheduler();
+    const log: string[] = [];
+    const blocker = task(log, 'blocker');
+    scheduler.schedule(blocker.run);
+
+    const batch1 = task(log, 'batch 1');
+    const chat1 = task(log, 'chat 1');
+    const batch2 = task(log, 'batch 2');
+    const chat2 = task(log, 'chat 2');
+    scheduler.schedule(batch1.run, { priority: 'background' });
+    scheduler.schedule(chat1.run, { priority: 'interactive' });
+    scheduler.schedule(batch2.run, { priority: 'background' });
+    scheduler.schedule(chat2.run);
+
+    for (const running of [blocker, chat1, chat2, batch1, batch2]) {
+      running.resolve('done');
+      await flush();
+    }
+    expect(log).toEqual(['blocker', 'chat 1', 'chat 2', 'batch 1', 'batch 2']);
+  });
+
+  it('lets requests for other keys pass one that waits for its key', async () => {
+    const scheduler = new RequestScheduler({ maxConcurrent: 2 });
+    const log: string[] = [];
+    scheduler.schedule(task(log, 'a1').run, { key: 'a' });
+    scheduler.schedule(task(log, 'a2').run, { key: 'a' });
+    scheduler.schedule(task(log, 'b1').run, { key: 'b' });
+
+    expect(log).toEqual(['a1', 'b1']);
+    expect(scheduler.getState()).toEqual({ pending: 1, running: 2, pendingByKey: { a: 1 } });
+  });
+
+  it('frees the slot and the key when a request fails', async () => {
+    const scheduler = new RequestScheduler();
+    const log: string[] = [];
+    const failing = task(log, 'failing');
+    const next = task(log, 'next');
+
+    const failed = scheduler.schedule(failing.run, { key: 'a' });
+    scheduler.schedule(next.run, { key: 'a' });
+    failing.reject(new Error('model unavailable'));
+
+    await expect(failed).rejects.toThrow('model unavailable');
+    await flush();
+    expect(log).toEqual(['failing', 'next']);
+  });
+
+  it('removes a queued request when its signal aborts', async () => {
+    const scheduler = new RequestScheduler();
+    const log: string[] = [];
+    const blocker = task(log, 'blocker');
+    const cancelled = task(log, 'cancelled');
+    scheduler.schedule(blocker.run);
+
+    const controller = new AbortController();
+    const result = scheduler.schedule(cancelled.run, { signal: controller.signal });
+    controller.abort(new Error('Stopped by the user'));
+
+    await expect(result).rejects.toThrow('Stopped by the user');
+    expect(scheduler.getQueueLength()).toBe(0);
+    blocker.resolve('done');
+    await flush();
+    expect(cancelled.run).not.toHaveBeenCalled();
+  });
+
+  it('rejects at once when the signal has already aborted', async () => {
+    const scheduler = new RequestScheduler();
+    const run = vi.fn(() => Promise.resolve('never'));
+    const controller = new AbortController();
+    controller.abort(new Error('Too late'));
+
+    await expect(scheduler.schedule(run, { signal: controller.signal })).rejects.toThrow('Too late');
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('reports the queue state on every change', async () => {
+    const states: QueueState[] = [];
+    const scheduler = new RequestScheduler({ onChange: state => states.push(state) });
+    const log: string[] = [];
+    const first = task(log, 'first');
+    scheduler.schedule(first.run, { key: 'a' });
+    scheduler.schedule(task(log, 'second').run, { key: 'a' });
+
+    expect(states[states.length - 1]).toEqual({ pending: 1, running: 1, pendingByKey: { a: 1 } });
+    first.resolve('done');
+    await flush();
+    expect(states[states.length - 1]).toEqual({ pending: 0, running: 1, pendingByKey: {} });
+  });
+});
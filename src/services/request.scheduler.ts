@@ -0,0 +1,143 @@
+// MARK: - Type definitions
+// Interactive requests (chat) are started before background ones (batch work)
+export type RequestPriority = 'interactive' | 'background';
+
+export interface ScheduleOptions {
+  // Requests sharing a key run one at a time, e.g. all turns of one session
+  key?: string;
+  priority?: RequestPriority;
+  // Aborting while queued removes the request and rejects with `signal.reason`
+  signal?: AbortSignal;
+}
+
+export interface QueueState {
+  pending: number;
+  running: number;
+  // Pending requests per key, for keys with at least one waiting request
+  pendingByKey: Record<string, number>;
+}
+
+interface QueuedRequest {
+  key?: string;
+  priority: RequestPriority;
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+  cleanup: () => void;
+}
+
+const priorityOrder: Record<RequestPriority, number> = {
+  interactive: 0,
+  background: 1
+};
+
+// MARK: - Scheduler
+/**
+ * Runs async work with a global concurrency cap and one-at-a-time execution per key.
+ * Requests start by priority, then in the order they were scheduled.
+ */
+export class RequestScheduler {
+  private pending: QueuedRequest[] = [];
+  private running = 0;
+  private activeKeys: Set<string> = new Set();
+  private maxConcurrent: number;
+  private readonly onChange?: (state: QueueState) => void;
+
+  constructor(options: { maxConcurrent?: number; onChange?: (state: QueueState) => void } = {}) {
+    this.maxConcurrent = Math.max(1, options.maxConcurrent ?? 1);
+    this.onChange = options.onChange;
+  }
+
+  getMaxConcurrent(): number {
+    return this.maxConcurrent;
+  }
+
+  setMaxConcurrent(maxConcurrent: number): void {
+    this.maxConcurrent = Math.max(1, Math.floor(maxConcurrent));
+    this.drain();
+  }
+
+  schedule<T>(run: () => Promise<T>, options: ScheduleOptions = {}): Promise<T> {
+    const { key, priority = 'interactive', signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const request: QueuedRequest = {
+        key,
+        priority,
+        run,
+        resolve: value => resolve(value as T),
+        reject,
+        cleanup: () => signal?.removeEventListener('abort', onAbort)
+      };
+
+      const onAbort = () => {
+        const index = this.pending.indexOf(request);
+        if (index === -1) return;
+        this.pending.splice(index, 1);
+        reject(signal?.reason);
+        this.notify();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Insert after every request of equal or higher priority to keep FIFO order
+      const index = this.pending.findIndex(queued => priorityOrder[queued.priority] > priorityOrder[priority]);
+      this.pending.splice(index === -1 ? this.pending.length : index, 0, request);
+      this.drain();
+      this.notify();
+    });
+  }
+
+  getQueueLength(key?: string): number {
+    return key === undefined
+      ? this.pending.length
+      : this.pending.filter(request => request.key === key).length;
+  }
+
+  getState(): QueueState {
+    const pendingByKey: Record<string, number> = {};
+    for (const { key } of this.pending) {
+      if (key !== undefined) {
+        pendingByKey[key] = (pendingByKey[key] ?? 0) + 1;
+      }
+    }
+    return { pending: this.pending.length, running: this.running, pendingByKey };
+  }
+
+  private drain(): void {
+    while (this.running < this.maxConcurrent) {
+      const index = this.pending.findIndex(request =>
+        request.key === undefined || !this.activeKeys.has(request.key)
+      );
+      if (index === -1) return;
+
+      const [request] = this.pending.splice(index, 1);
+      this.start(request);
+    }
+  }
+
+  private start(request: QueuedRequest): void {
+    request.cleanup();
+    this.running++;
+    if (request.key !== undefined) {
+      this.activeKeys.add(request.key);
+    }
+
+    request.run()
+      .then(request.resolve, request.reject)
+      .finally(() => {
+        this.running--;
+        if (request.key !== undefined) {
+          this.activeKeys.delete(request.key);
+        }
+        this.drain();
+        this.notify();
+      });
+  }
+
+  private notify(): void {
+    this.onChange?.(this.getState());
+  }
+}
@@ -0,0 +1,76 @@
+import type { ConversationSession, LanguageModelProvider } from './foundation.models.service';
+
+// MARK: - Type definitions
+export interface ManagedSession {
+  session: ConversationSession;
+  provider: LanguageModelProvider;
+  // Unset while evicted; the native session is rebuilt from the transcript on next use
+  nativeSessionId?: string;
+  lastUsedAt: number;
+}
+
+// MARK: - Session manager
+/**
+ * Bookkeeping for conversation sessions in least-recently-used order. Any number of
+ * conversations can exist, but only `maxLiveSessions` keep a native session alive.
+ */
+export class SessionManager {
+  // Map iteration order doubles as LRU order: least recently used first
+  private sessions: Map<string, ManagedSession> = new Map();
+  private maxLiveSessions: number;
+
+  constructor(maxLiveSessions = 4) {
+    this.maxLiveSessions = Math.max(1, maxLiveSessions);
+  }
+
+  getMaxLiveSessions(): number {
+    return this.maxLiveSessions;
+  }
+
+  setMaxLiveSessions(maxLiveSessions: number): void {
+    this.maxLiveSessions = Math.max(1, Math.floor(maxLiveSessions));
+  }
+
+  add(session: ConversationSession, provider: LanguageModelProvider, nativeSessionId: string): ManagedSession {
+    const managed: ManagedSession = { session, provider, nativeSessionId, lastUsedAt: Date.now() };
+    this.sessions.set(session.sessionId, managed);
+    return managed;
+  }
+
+  get(sessionId: string): ManagedSession | undefined {
+    return this.sessions.get(sessionId);
+  }
+
+  delete(sessionId: string): ManagedSession | undefined {
+    const managed = this.sessions.get(sessionId);
+    this.sessions.delete(sessionId);
+    return managed;
+  }
+
+  ids(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  // Most recently used first
+  list(): ManagedSession[] {
+    return Array.from(this.sessions.values()).reverse();
+  }
+
+  touch(sessionId: string): void {
+    const managed = this.sessions.get(sessionId);
+    if (!managed) return;
+
+    managed.lastUsedAt = Date.now();
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, managed);
+  }
+
+  // Live sessions over the limit, least recently used first; busy sessions are skipped
+  evictionCandidates(isBusy: (sessionId: string) => boolean): ManagedSession[] {
+    const live = Array.from(this.sessions.values()).filter(managed => managed.nativeSessionId !== undefined);
+    const excess = live.length - this.maxLiveSessions;
+    if (excess <= 0) return [];
+
+    return live.filter(managed => !isBusy(managed.session.sessionId)).slice(0, excess);
+  }
+}
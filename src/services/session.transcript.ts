@@ -0,0 +1,111 @@
+// MARK: - Type definitions
+export type TranscriptEntry =
+  | { type: 'instructions'; text: string; timestamp: number }
+  | { type: 'prompt'; text: string; timestamp: number }
+  | { type: 'response'; text: string; timestamp: number }
+  | { type: 'toolCall'; callId: string; toolId: string; toolName?: string; arguments: string; timestamp: number }
+  | { type: 'toolOutput'; callId: string; toolId: string; output: string; timestamp: number }
+  // Earlier turns were summarized into a fresh native session, keeping the last `retainedTurns`
+  | { type: 'compaction'; summary: string; retainedTurns: number; timestamp: number };
+
+export interface TranscriptChangeEvent {
+  sessionId: string;
+  // Entries appended by this change, in order
+  added: TranscriptEntry[];
+  transcript: TranscriptEntry[];
+}
+
+export interface TranscriptTurn {
+  prompt: string;
+  response: string;
+}
+
+// Pairs each prompt with its response, dropping tool activity and unanswered prompts
+export function transcriptTurns(entries: TranscriptEntry[]): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let prompt: string | undefined;
+  for (const entry of entries) {
+    if (entry.type === 'prompt') {
+      prompt = entry.text;
+    } else if (entry.type === 'response' && prompt !== undefined) {
+      turns.push({ prompt, response: entry.text });
+      prompt = undefined;
+    }
+  }
+  return turns;
+}
+
+// MARK: - Transcript store
+/**
+ * Client-side copy of each session's turns. A turn is buffered while its request runs and
+ * only committed once the response arrives, so failed or cancelled attempts leave no trace.
+ */
+export class TranscriptStore {
+  private transcripts: Map<string, TranscriptEntry[]> = new Map();
+  private pendingTurns: Map<string, TranscriptEntry[]> = new Map();
+  private readonly onChange?: (event: TranscriptChangeEvent) => void;
+
+  constructor(onChange?: (event: TranscriptChangeEvent) => void) {
+    this.onChange = onChange;
+  }
+
+  // `entries` seeds the transcript, e.g. instructions or the history of a restored session
+  start(sessionId: string, entries: TranscriptEntry[] = []): void {
+    this.transcripts.set(sessionId, []);
+    if (entries.length > 0) {
+      this.append(sessionId, entries);
+    }
+  }
+
+  has(sessionId: string): boolean {
+    return this.transcripts.has(sessionId);
+  }
+
+  get(sessionId: string): TranscriptEntry[] | undefined {
+    const transcript = this.transcripts.get(sessionId);
+    return transcript ? [...transcript] : undefined;
+  }
+
+  delete(sessionId: string): void {
+    this.transcripts.delete(sessionId);
+    this.pendingTurns.delete(sessionId);
+  }
+
+  // MARK: - Turns
+  beginTurn(sessionId: string, prompt: string): void {
+    this.pendingTurns.set(sessionId, [{ type: 'prompt', text: prompt, timestamp: Date.now() }]);
+  }
+
+  hasPendingTurn(sessionId: string): boolean {
+    return this.pendingTurns.has(sessionId);
+  }
+
+  // Tool calls and outputs are recorded into the turn that triggered them
+  recordToolActivity(sessionId: string, entry: Extract<TranscriptEntry, { type: 'toolCall' | 'toolOutput' }>): void {
+    this.pendingTurns.get(sessionId)?.push(entry);
+  }
+
+  commitTurn(sessionId: string, response: string): void {
+    const turn = this.pendingTurns.get(sessionId);
+    if (!turn) return;
+
+    this.pendingTurns.delete(sessionId);
+    this.append(sessionId, [...turn, { type: 'response', text: response, timestamp: Date.now() }]);
+  }
+
+  discardTurn(sessionId: string): void {
+    this.pendingTurns.delete(sessionId);
+  }
+
+  recordCompaction(sessionId: string, summary: string, retainedTurns: number): void {
+    this.append(sessionId, [{ type: 'compaction', summary, retainedTurns, timestamp: Date.now() }]);
+  }
+
+  private append(sessionId: string, entries: TranscriptEntry[]): void {
+    const transcript = this.transcripts.get(sessionId);
+    if (!transcript) return;
+
+    transcript.push(...entries);
+    this.onChange?.({ sessionId, added: entries, transcript: [...transcript] });
+  }
+}
@@ -0,0 +1,129 @@
+import { validateJsonSchema, type InferSchema, type JSONSchema, type SchemaIssue } from './json.schema';
+
+// MARK: - Type definitions
+// Objects are serialized to JSON before being handed to the model
+export type ToolResult = string | object;
+
+export interface ToolCallContext {
+  callId: string;
+  // Aborted when the call times out or the generation that made it is cancelled
+  signal: AbortSignal;
+  // Shown in the tool call timeline, not sent to the model
+  log: (message: string) => void;
+}
+
+// Handler shape used by the tool bridge; `payload` is the raw argument string from the model
+export type ToolHandler = (payload: string, context: ToolCallContext) => Promise<ToolResult> | ToolResult;
+
+export interface ToolDefinition<Args = unknown> {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+  // Overrides the global tool timeout for this tool
+  timeoutMs?: number;
+  // Pauses calls until the user approves them; a predicate decides per call from the validated arguments
+  requiresApproval?: boolean | ((args: Args) => boolean);
+  handler: (args: Args, context: ToolCallContext) => Promise<ToolResult> | ToolResult;
+}
+
+// Lets definitions with different argument types share one collection
+export type AnyToolDefinition = ToolDefinition<never>;
+
+export type ToolErrorCode = 'invalidArguments' | 'handlerFailed' | 'timeout' | 'cancelled' | 'unknownTool' | 'denied';
+
+// Shape of the tool output the model receives when a call fails
+export interface ToolErrorOutput {
+  error: {
+    code: ToolErrorCode;
+    message: string;
+    issues?: SchemaIssue[];
+  };
+}
+
+// MARK: - Definition
+/**
+ * Declares a tool whose arguments are described by a JSON schema. The handler's argument
+ * type is inferred from the schema literal, and it only runs once the arguments validate.
+ */
+export function defineTool<const S extends JSONSchema>(spec: {
+  name: string;
+  description: string;
+  parameters: S;
+  timeoutMs?: number;
+  requiresApproval?: boolean | ((args: InferSchema<S>) => boolean);
+  handler: (args: InferSchema<S>, context: ToolCallContext) => Promise<ToolResult> | ToolResult;
+}): ToolDefinition<InferSchema<S>> {
+  return spec;
+}
+
+export function toolErrorOutput(code: ToolErrorCode, message: string, issues?: SchemaIssue[]): string {
+  const output: ToolErrorOutput = { error: { code, message, ...(issues ? { issues } : {}) } };
+  return JSON.stringify(output);
+}
+
+// Recovers the error from an output produced by `toolErrorOutput`; other outputs yield undefined
+export function parseToolError(output: string): ToolErrorOutput['error'] | undefined {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    return undefined;
+  }
+  const error = (parsed as Partial<ToolErrorOutput> | null)?.error;
+  return typeof error?.code === 'string' && typeof error.message === 'string' ? error : undefined;
+}
+
+export function serializeToolResult(result: ToolResult): string {
+  return typeof result === 'string' ? result : JSON.stringify(result);
+}
+
+// MARK: - Invocation
+// Tools without arguments may be called with an empty payload
+const parsePayload = (payload: string): unknown => payload.trim() === '' ? {} : JSON.parse(payload);
+
+/**
+ * Adapts a definition to the bridge's payload-string handler shape. Malformed or invalid
+ * arguments and handler failures become structured error outputs for the model.
+ */
+export function createToolHandler<Args>(definition: ToolDefinition<Args>): ToolHandler {
+  return async (payload, context) => {
+    let args: unknown;
+    try {
+      args = parsePayload(payload);
+    } catch {
+      return toolErrorOutput('invalidArguments', `Arguments for ${definition.name} must be valid JSON`);
+    }
+
+    const issues = validateJsonSchema(args, definition.parameters);
+    if (issues.length > 0) {
+      return toolErrorOutput('invalidArguments', `Arguments for ${definition.name} do not match its schema`, issues);
+    }
+
+    try {
+      return serializeToolResult(await definition.handler(args as Args, context));
+    } catch (error) {
+      return toolErrorOutput('handlerFailed', (error as Error)?.message ?? String(error));
+    }
+  };
+}
+
+/**
+ * Adapts `requiresApproval` to the bridge's payload shape. Calls with invalid arguments are
+ * not held for approval since the handler rejects them anyway.
+ */
+export function createApprovalCheck<Args>(definition: ToolDefinition<Args>): ((payload: string) => boolean) | undefined {
+  const { requiresApproval } = definition;
+  if (typeof requiresApproval !== 'function') {
+    return requiresApproval ? () => true : undefined;
+  }
+
+  return payload => {
+    let args: unknown;
+    try {
+      args = parsePayload(payload);
+    } catch {
+      return false;
+    }
+    return validateJsonSchema(args, definition.parameters).length === 0 && requiresApproval(args as Args);
+  };
+}
@@ -0,0 +1,120 @@
+import { resolveObjectURL } from 'node:buffer';
+import vm from 'node:vm';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { runInSandbox } from './tool.sandbox';
+
+// Node has no Web Worker, so this runs the generated worker source in a vm context whose
+// global scope offers the network and storage APIs a browser worker has, on its prototype
+// the way WorkerGlobalScope does
+class FakeWorker {
+  static instances: FakeWorker[] = [];
+
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string; preventDefault: () => void }) => void) | null = null;
+  terminated = false;
+  private context?: vm.Context;
+  private ready: Promise<void>;
+
+  constructor(url: string) {
+    FakeWorker.instances.push(this);
+    const blob = resolveObjectURL(url);
+    if (!blob) throw new Error(`No blob behind ${url}`);
+    this.ready = blob.text().then(source => this.load(source));
+  }
+
+  postMessage(data: unknown): void {
+    this.ready.then(() => {
+      if (!this.terminated) (this.context!.onmessage as (event: { data: unknown }) => void)({ data });
+    });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  private load(source: string): void {
+    const workerScope = {
+      fetch: () => Promise.resolve('network reached'),
+      XMLHttpRequest: class {},
+      WebSocket: class {},
+      importScripts: () => 'script imported',
+      indexedDB: {},
+      navigator: { userAgent: 'fake' }
+    };
+    const context = vm.createContext(Object.create(workerScope));
+    context.self = context;
+    context.setTimeout = setTimeout;
+    context.postMessage = (data: unknown) => {
+      if (!this.terminated) this.onmessage?.({ data });
+    };
+    try {
+      vm.runInContext(source, context);
+    } catch (error) {
+      this.onerror?.({ message: (error as Error).message, preventDefault: () => {} });
+    }
+    this.context = context;
+  }
+}
+
+beforeEach(() => {
+  FakeWorker.instances = [];
+  vi.stubGlobal('Worker', FakeWorker);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe('runInSandbox', () => {
+  it('returns what the handler returns, serialized', async () => {
+    await expect(runInSandbox('return args.a + args.b;', { a: 2, b: 3 })).resolves.toBe('5');
+    await expect(runInSandbox('return { sum: args.a + args.b };', { a: 2, b: 3 })).resolves.toBe('{"sum":5}');
+    await expect(runInSandbox('return "plain";', {})).resolves.toBe('plain');
+  });
+
+  it.each(['fetch', 'XMLHttpRequest', 'importScripts', 'WebSocket', 'indexedDB', 'navigator'])(
+    'removes %s before the handler runs',
+    async name => {
+      const code = `return [typeof ${name}, typeof self.${name}, typeof globalThis.${name}, typeof Reflect.get(self, '${name}')];`;
+      await expect(runInSandbox(code, {})).resolves.toBe('["undefined","undefined","undefined","undefined"]');
+    }
+  );
+
+  it('does not let the handler put a removed global back', async () => {
+    await expect(runInSandbox('self.fetch = () => 1; return typeof fetch;', {}))
+      .rejects.toThrow(/read only|read-only|Cannot assign/);
+  });
+
+  it('rejects with the message of an error the handler throws', async () => {
+    await expect(runInSandbox('throw new Error("no such city");', {})).rejects.toThrow('no such city');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('reports code that does not compile', async () => {
+    await expect(runInSandbox('return (;', {})).rejects.toThrow();
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('terminates the worker when the time limit passes', async () => {
+    const run = runInSandbox('await new Promise(() => {});', {}, { timeLimitMs: 50 });
+    await expect(run).rejects.toThrow('The tool exceeded its time limit of 50 ms');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('terminates the worker when the call is cancelled', async () => {
+    const controller = new AbortController();
+    const run = runInSandbox('await new Promise(() => {});', {}, { signal: controller.signal });
+    controller.abort();
+    await expect(run).rejects.toThrow('The tool call was cancelled');
+    expect(FakeWorker.instances[0].terminated).toBe(true);
+  });
+
+  it('does not start a worker for a call cancelled beforehand', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(runInSandbox('return 1;', {}, { signal: controller.signal })).rejects.toThrow('Cancelled before the tool started');
+    expect(FakeWorker.instances).toHaveLength(0);
+  });
+});
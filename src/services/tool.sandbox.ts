@@ -0,0 +1,103 @@
+import type { ToolResult } from './tool.definition';
+
+// MARK: - Type definitions
+export interface SandboxOptions {
+  // The worker is terminated when the handler has not finished by then
+  timeLimitMs?: number;
+  signal?: AbortSignal;
+}
+
+type SandboxResponse = { ok: true; result: string } | { ok: false; error: string };
+
+export const DEFAULT_SANDBOX_TIME_LIMIT_MS = 5_000;
+
+// Globals removed before the user code runs. This keeps honest handlers to computing on their
+// arguments but is not a security boundary: a blob worker inherits the page's CSP, which allows
+// network access, and determined code can reach the removed APIs through other routes
+const BLOCKED_GLOBALS = [
+  'fetch',
+  'XMLHttpRequest',
+  'WebSocket',
+  'EventSource',
+  'importScripts',
+  'indexedDB',
+  'caches',
+  'BroadcastChannel',
+  'Worker',
+  'SharedWorker',
+  'navigator'
+];
+
+/**
+ * Worker source wrapping `code` as the body of an async `handler(args)`. Blocked globals
+ * are shadowed on the global object and its prototypes before the handler is defined.
+ */
+const workerSource = (code: string): string => `'use strict';
+(() => {
+  const blocked = ${JSON.stringify(BLOCKED_GLOBALS)};
+  for (let scope = self; scope && scope !== Object.prototype; scope = Object.getPrototypeOf(scope)) {
+    for (const name of blocked) {
+      if (scope !== self && !Object.prototype.hasOwnProperty.call(scope, name)) continue;
+      try {
+        Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+      } catch {}
+    }
+  }
+})();
+const handler = async (args) => {
+${code}
+};
+self.onmessage = async (event) => {
+  try {
+    const result = await handler(event.data);
+    self.postMessage({ ok: true, result: typeof result === 'string' ? result : JSON.stringify(result ?? null) });
+  } catch (error) {
+    self.postMessage({ ok: false, error: error && error.message ? error.message : String(error) });
+  }
+};
+`;
+
+// MARK: - Execution
+/**
+ * Runs a user-written handler body in a fresh Web Worker: no DOM and no state shared
+ * between calls, with network and storage globals removed. Rejects when the code throws,
+ * fails to compile, exceeds its time limit or the signal aborts; the worker is terminated
+ * in all cases.
+ */
+export function runInSandbox(code: string, args: unknown, options: SandboxOptions = {}): Promise<ToolResult> {
+  const { timeLimitMs = DEFAULT_SANDBOX_TIME_LIMIT_MS, signal } = options;
+
+  return new Promise<ToolResult>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new Error('Cancelled before the tool started'));
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([workerSource(code)], { type: 'text/javascript' }));
+    const worker = new Worker(url);
+    URL.revokeObjectURL(url);
+
+    const finish = (settle: () => void) => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      worker.terminate();
+      settle();
+    };
+    const timer = setTimeout(() => {
+      finish(() => reject(new Error(`The tool exceeded its time limit of ${timeLimitMs} ms`)));
+    }, timeLimitMs);
+    const onAbort = () => finish(() => reject(new Error('The tool call was cancelled')));
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    worker.onmessage = (event: MessageEvent<SandboxResponse>) => {
+      const response = event.data;
+      finish(() => response.ok ? resolve(response.result) : reject(new Error(response.error)));
+    };
+    // Syntax errors in the handler body surface here
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      finish(() => reject(new Error(event.message || 'The tool code failed to load')));
+    };
+    worker.postMessage(args);
+  });
+}
@@ -0,0 +1,32 @@
+/**
+ * Minimal typed event emitter for service-level events. `on` returns an
+ * unsubscribe function so it can be returned directly from a React effect.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Set<(payload: Events[K]) => void> } = {};
+
+  on<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): () => void {
+    const listeners = this.listeners[event] ?? new Set();
+    listeners.add(listener);
+    this.listeners[event] = listeners;
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: (payload: Events[K]) => void): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of this.listeners[event] ?? []) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Listener for '${String(event)}' failed:`, error);
+      }
+    }
+  }
+
+  removeAllListeners(): void {
+    this.listeners = {};
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+
+import { convertUnits, listUnits, resolveUnit } from './unit.conversion';
+
+describe('convertUnits', () => {
+  it.each([
+    [1, 'mi', 'km', 1.609344],
+    [10, 'kg', 'lb', 22.0462262185],
+    [1, 'gal', 'l', 3.785411784],
+    [1, 'ha', 'm2', 10000],
+    [100, 'km/h', 'm/s', 27.7777777778],
+    [90, 'min', 'h', 1.5],
+    [1, 'gib', 'MB', 1073.741824],
+    [1, 'short ton', 'kg', 907.18474],
+    [1, 'long_ton', 'lb', 2240]
+  ])('converts %d %s to %s', (value, from, to, result) => {
+    expect(convertUnits(value, from, to).result).toBeCloseTo(result, 8);
+  });
+
+  it('converts temperatures through their offsets', () => {
+    expect(convertUnits(100, 'c', 'f').result).toBe(212);
+    expect(convertUnits(32, '°F', 'celsius').result).toBe(0);
+    expect(convertUnits(0, 'k', 'c').result).toBe(-273.15);
+  });
+
+  it('reports the resolved units and the dimension', () => {
+    expect(convertUnits(3, 'Feet', 'inches')).toEqual({ value: 3, from: 'ft', to: 'in', result: 36, dimension: 'length' });
+  });
+
+  it('removes binary floating point noise', () => {
+    expect(convertUnits(0.3, 'm', 'cm').result).toBe(30);
+  });
+
+  it('rejects unknown units and conversions across dimensions', () => {
+    expect(() => convertUnits(1, 'parsec', 'km')).toThrow("Unknown unit 'parsec'");
+    expect(() => convertUnits(1, 'km', 'furlong')).toThrow("Unknown unit 'furlong'");
+    expect(() => convertUnits(1, 'm', 'kg')).toThrow('Cannot convert length (m) to mass (kg)');
+  });
+});
+
+describe('data units', () => {
+  it('tells bits from bytes by case', () => {
+    expect(convertUnits(100, 'Mb', 'MB').result).toBe(12.5);
+    expect(convertUnits(1, 'GB', 'Gb').result).toBe(8);
+    expect(convertUnits(8, 'b', 'B').result).toBe(1);
+    expect(convertUnits(1, 'megabit', 'kilobytes').result).toBe(125);
+    expect(resolveUnit('KB')).toBe('kB');
+    expect(resolveUnit('GiB')).toBe('GiB');
+  });
+
+  it('rejects lowercase symbols that could be either', () => {
+    expect(resolveUnit('mb')).toBeUndefined();
+    expect(() => convertUnits(1, 'mb', 'kB')).toThrow("'mb' is ambiguous; use MB for megabytes or Mb for megabits");
+    expect(() => convertUnits(1, 'kB', 'gb')).toThrow("'gb' is ambiguous");
+  });
+});
+
+describe('tons', () => {
+  it('rejects ton as ambiguous', () => {
+    expect(resolveUnit('tons')).toBeUndefined();
+    expect(() => convertUnits(2, 'ton', 'kg'))
+      .toThrow("'ton' is ambiguous; use t for metric tonnes, short_ton for US tons or long_ton for imperial tons");
+  });
+
+  it('accepts the specific tons', () => {
+    expect(resolveUnit('metric tons')).toBe('t');
+    expect(resolveUnit('US ton')).toBe('short_ton');
+    expect(resolveUnit('imperial tons')).toBe('long_ton');
+  });
+});
+
+describe('resolveUnit', () => {
+  it('accepts symbols, spelled-out names, plurals and extra spaces', () => {
+    expect(resolveUnit('KM')).toBe('km');
+    expect(resolveUnit('kilometres')).toBe('km');
+    expect(resolveUnit('  nautical   miles ')).toBe('nmi');
+    expect(resolveUnit('m³')).toBe('m3');
+    expect(resolveUnit('lbs')).toBe('lb');
+  });
+
+  it('does not resolve prototype members', () => {
+    expect(resolveUnit('constructor')).toBeUndefined();
+    expect(resolveUnit('toString')).toBeUndefined();
+  });
+});
+
+describe('listUnits', () => {
+  it('filters by dimension', () => {
+    expect(listUnits('temperature')).toEqual(['k', 'c', 'f']);
+    expect(listUnits()).toContain('mph');
+  });
+});
@@ -0,0 +1,189 @@
+// MARK: - Type definitions
+export type UnitDimension = 'length' | 'mass' | 'volume' | 'area' | 'speed' | 'time' | 'data' | 'temperature';
+
+interface UnitSpec {
+  dimension: UnitDimension;
+  // Multiplier to the dimension's base unit; temperatures use `toBase`/`fromBase` instead
+  factor: number;
+  toBase?: (value: number) => number;
+  fromBase?: (value: number) => number;
+}
+
+export interface UnitConversion {
+  value: number;
+  from: string;
+  to: string;
+  result: number;
+  dimension: UnitDimension;
+}
+
+const linear = (dimension: UnitDimension, factor: number): UnitSpec => ({ dimension, factor });
+
+// Base units: metre, kilogram, litre, square metre, metre per second, second, byte, kelvin
+const UNITS: Record<string, UnitSpec> = {
+  mm: linear('length', 0.001),
+  cm: linear('length', 0.01),
+  m: linear('length', 1),
+  km: linear('length', 1000),
+  in: linear('length', 0.0254),
+  ft: linear('length', 0.3048),
+  yd: linear('length', 0.9144),
+  mi: linear('length', 1609.344),
+  nmi: linear('length', 1852),
+
+  mg: linear('mass', 1e-6),
+  g: linear('mass', 0.001),
+  kg: linear('mass', 1),
+  t: linear('mass', 1000),
+  oz: linear('mass', 0.028349523125),
+  lb: linear('mass', 0.45359237),
+  st: linear('mass', 6.35029318),
+  short_ton: linear('mass', 907.18474),
+  long_ton: linear('mass', 1016.0469088),
+
+  ml: linear('volume', 0.001),
+  cl: linear('volume', 0.01),
+  l: linear('volume', 1),
+  m3: linear('volume', 1000),
+  tsp: linear('volume', 0.00492892159375),
+  tbsp: linear('volume', 0.01478676478125),
+  floz: linear('volume', 0.0295735295625),
+  cup: linear('volume', 0.2365882365),
+  pt: linear('volume', 0.473176473),
+  qt: linear('volume', 0.946352946),
+  gal: linear('volume', 3.785411784),
+
+  cm2: linear('area', 0.0001),
+  m2: linear('area', 1),
+  km2: linear('area', 1e6),
+  ft2: linear('area', 0.09290304),
+  ha: linear('area', 10000),
+  acre: linear('area', 4046.8564224),
+
+  'm/s': linear('speed', 1),
+  'km/h': linear('speed', 1 / 3.6),
+  mph: linear('speed', 0.44704),
+  kn: linear('speed', 1852 / 3600),
+
+  ms: linear('time', 0.001),
+  s: linear('time', 1),
+  min: linear('time', 60),
+  h: linear('time', 3600),
+  d: linear('time', 86400),
+  wk: linear('time', 604800),
+
+  B: linear('data', 1),
+  kB: linear('data', 1e3),
+  MB: linear('data', 1e6),
+  GB: linear('data', 1e9),
+  TB: linear('data', 1e12),
+  KiB: linear('data', 1024),
+  MiB: linear('data', 1024 ** 2),
+  GiB: linear('data', 1024 ** 3),
+  bit: linear('data', 1 / 8),
+  kbit: linear('data', 1e3 / 8),
+  Mbit: linear('data', 1e6 / 8),
+  Gbit: linear('data', 1e9 / 8),
+  Tbit: linear('data', 1e12 / 8),
+
+  k: { dimension: 'temperature', factor: 1 },
+  c: { dimension: 'temperature', factor: 1, toBase: value => value + 273.15, fromBase: value => value - 273.15 },
+  f: {
+    dimension: 'temperature',
+    factor: 1,
+    toBase: value => (value - 32) * 5 / 9 + 273.15,
+    fromBase: value => (value - 273.15) * 9 / 5 + 32
+  }
+};
+
+// Spelled-out and alternative names, matched after lowercasing and trimming a plural `s`
+const ALIASES: Record<string, string> = {
+  millimeter: 'mm', millimetre: 'mm', centimeter: 'cm', centimetre: 'cm', meter: 'm', metre: 'm',
+  kilometer: 'km', kilometre: 'km', inch: 'in', inche: 'in', foot: 'ft', feet: 'ft', yard: 'yd',
+  mile: 'mi', 'nautical mile': 'nmi',
+  milligram: 'mg', gram: 'g', kilogram: 'kg', kilo: 'kg', tonne: 't', 'metric ton': 't', ounce: 'oz',
+  pound: 'lb', lbs: 'lb', stone: 'st', 'short ton': 'short_ton', 'us ton': 'short_ton',
+  'long ton': 'long_ton', 'imperial ton': 'long_ton',
+  milliliter: 'ml', millilitre: 'ml', centiliter: 'cl', centilitre: 'cl', liter: 'l', litre: 'l',
+  'cubic meter': 'm3', 'm³': 'm3', teaspoon: 'tsp', tablespoon: 'tbsp', 'fl oz': 'floz',
+  'fluid ounce': 'floz', pint: 'pt', quart: 'qt', gallon: 'gal',
+  'cm²': 'cm2', 'm²': 'm2', 'square meter': 'm2', 'square metre': 'm2', 'km²': 'km2',
+  'square kilometer': 'km2', 'square kilometre': 'km2', 'ft²': 'ft2', 'square foot': 'ft2',
+  'square feet': 'ft2', hectare: 'ha',
+  mps: 'm/s', kph: 'km/h', kmh: 'km/h', knot: 'kn', kt: 'kn',
+  millisecond: 'ms', second: 's', sec: 's', minute: 'min', hour: 'h', hr: 'h', day: 'd',
+  week: 'wk',
+  byte: 'B', kilobyte: 'kB', megabyte: 'MB', gigabyte: 'GB', terabyte: 'TB',
+  kib: 'KiB', mib: 'MiB', gib: 'GiB', kibibyte: 'KiB', mebibyte: 'MiB', gibibyte: 'GiB',
+  kilobit: 'kbit', megabit: 'Mbit', gigabit: 'Gbit', terabit: 'Tbit',
+  mbit: 'Mbit', gbit: 'Gbit', tbit: 'Tbit',
+  kelvin: 'k', celsius: 'c', '°c': 'c', fahrenheit: 'f', '°f': 'f'
+};
+
+// Bits and bytes differ only in case (Mb and MB), so these symbols are matched as written
+const CASE_SENSITIVE: Record<string, string> = {
+  B: 'B', kB: 'kB', KB: 'kB', MB: 'MB', GB: 'GB', TB: 'TB',
+  b: 'bit', kb: 'kbit', Kb: 'kbit', Mb: 'Mbit', Gb: 'Gbit', Tb: 'Tbit'
+};
+
+// Names that mean more than one unit, with what to use instead
+const AMBIGUOUS: Record<string, string> = {
+  ton: 't for metric tonnes, short_ton for US tons or long_ton for imperial tons',
+  mb: 'MB for megabytes or Mb for megabits',
+  gb: 'GB for gigabytes or Gb for gigabits',
+  tb: 'TB for terabytes or Tb for terabits'
+};
+
+// MARK: - Conversion
+// Unit names come from the model, so `constructor` and the like must not resolve to prototype members
+const isOwn = (table: object, name: string): boolean => Object.prototype.hasOwnProperty.call(table, name);
+
+const candidates = (name: string): string[] => [name, name.replace(/s$/, '')];
+
+export function resolveUnit(unit: string): string | undefined {
+  const written = unit.trim().replace(/\s+/g, ' ');
+  for (const candidate of candidates(written)) {
+    if (isOwn(CASE_SENSITIVE, candidate)) return CASE_SENSITIVE[candidate];
+  }
+  const name = written.toLowerCase();
+  for (const candidate of candidates(name)) {
+    if (isOwn(AMBIGUOUS, candidate)) return undefined;
+    if (isOwn(UNITS, candidate)) return candidate;
+    if (isOwn(ALIASES, candidate)) return ALIASES[candidate];
+  }
+  return undefined;
+}
+
+function unknownUnit(unit: string): Error {
+  const name = unit.trim().replace(/\s+/g, ' ').toLowerCase();
+  const alternatives = candidates(name).map(candidate => isOwn(AMBIGUOUS, candidate) ? AMBIGUOUS[candidate] : undefined).find(Boolean);
+  return new Error(alternatives ? `'${unit}' is ambiguous; use ${alternatives}` : `Unknown unit '${unit}'`);
+}
+
+/**
+ * Converts between units of the same dimension. Throws for unknown units and for
+ * conversions across dimensions, e.g. metres to kilograms.
+ */
+export function convertUnits(value: number, from: string, to: string): UnitConversion {
+  const fromUnit = resolveUnit(from);
+  const toUnit = resolveUnit(to);
+  if (!fromUnit) throw unknownUnit(from);
+  if (!toUnit) throw unknownUnit(to);
+
+  const source = UNITS[fromUnit];
+  const target = UNITS[toUnit];
+  if (source.dimension !== target.dimension) {
+    throw new Error(`Cannot convert ${source.dimension} (${from}) to ${target.dimension} (${to})`);
+  }
+
+  const base = source.toBase ? source.toBase(value) : value * source.factor;
+  const result = target.fromBase ? target.fromBase(base) : base / target.factor;
+  // Drop binary floating point noise such as 0.30000000000000004
+  return { value, from: fromUnit, to: toUnit, result: Number.parseFloat(result.toPrecision(12)), dimension: source.dimension };
+}
+
+export function listUnits(dimension?: UnitDimension): string[] {
+  return Object.entries(UNITS)
+    .filter(([, spec]) => !dimension || spec.dimension === dimension)
+    .map(([unit]) => unit);
+}
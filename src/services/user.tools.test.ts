@@ -0,0 +1,47 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { UserToolStore, validateUserToolDraft, type UserToolDraft } from './user.tools';
+
+const BUILT_IN_NAMES = ['memory_tool', 'memory', 'http_fetch_tool', 'http_fetch', 'unit_conversion_tool', 'convert_units'];
+
+const draft = (name: string): UserToolDraft => ({
+  name,
+  description: 'Adds two numbers',
+  parameters: { type: 'object', properties: {} },
+  code: 'return 1;'
+});
+
+describe('validateUserToolDraft', () => {
+  it.each(['memory_tool', 'http_fetch', 'convert_units', 'HTTP_Fetch'])('rejects the built-in name %s', name => {
+    expect(validateUserToolDraft(draft(name), [], BUILT_IN_NAMES)).toEqual([`${name} is taken by a built-in tool`]);
+  });
+
+  it('accepts a new name', () => {
+    expect(validateUserToolDraft(draft('add_numbers'), [], BUILT_IN_NAMES)).toEqual([]);
+  });
+});
+
+describe('UserToolStore', () => {
+  let storage: Map<string, string>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value)
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses to create a tool under a built-in or existing name', () => {
+    const store = new UserToolStore();
+    expect(() => store.create(draft('http_fetch'), BUILT_IN_NAMES)).toThrow('http_fetch is taken by a built-in tool');
+
+    store.create(draft('add_numbers'), BUILT_IN_NAMES);
+    expect(() => store.create(draft('add_numbers'), BUILT_IN_NAMES)).toThrow('A tool named add_numbers already exists');
+    expect(store.list().map(tool => tool.name)).toEqual(['add_numbers']);
+  });
+});
@@ -0,0 +1,136 @@
+import { registerCustomTool } from './foundation.models.service';
+import type { JSONSchema } from './json.schema';
+import { createToolHandler, type ToolDefinition } from './tool.definition';
+import { runInSandbox, type SandboxOptions } from './tool.sandbox';
+
+// MARK: - Type definitions
+export interface UserToolSpec {
+  id: string;
+  // Name the model calls the tool by
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+  // Body of `async (args) => { ... }`, run in a sandboxed worker
+  code: string;
+  timeLimitMs?: number;
+  createdAt: number;
+}
+
+export type UserToolDraft = Omit<UserToolSpec, 'id' | 'createdAt'>;
+
+const STORAGE_KEY = 'foundation-models.user-tools';
+const TOOL_NAME = /^[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+const SCHEMA_TYPES = ['string', 'number', 'integer', 'boolean', 'null', 'array', 'object'];
+
+// MARK: - Validation
+/**
+ * Parses the argument schema typed by the user. The top level must be an object schema;
+ * nested schemas are only checked for a known `type`.
+ */
+export function parseUserToolSchema(text: string): JSONSchema {
+  let schema: unknown;
+  try {
+    schema = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`The argument schema is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const check = (node: unknown, path: string): void => {
+    const type = (node as { type?: unknown } | null)?.type;
+    if (typeof type !== 'string' || !SCHEMA_TYPES.includes(type)) {
+      throw new Error(`${path} needs a type, one of ${SCHEMA_TYPES.join(', ')}`);
+    }
+    const { properties, items } = node as { properties?: Record<string, unknown>; items?: unknown };
+    for (const [key, child] of Object.entries(properties ?? {})) check(child, `${path}.${key}`);
+    if (items !== undefined) check(items, `${path}[]`);
+  };
+  check(schema, 'The schema');
+  if ((schema as JSONSchema).type !== 'object') throw new Error('The argument schema must be of type object');
+
+  return schema as JSONSchema;
+}
+
+// Built-in tool IDs and names are compared case-insensitively, so `HTTP_fetch` cannot shadow `http_fetch` either
+export const isReservedToolName = (name: string, reservedNames: string[]): boolean =>
+  reservedNames.some(reserved => reserved.toLowerCase() === name.toLowerCase());
+
+/**
+ * Returns a list of problems with the draft; an empty list means it can be saved.
+ * `reservedNames` are the IDs and names of built-in tools, which a user tool must not take.
+ */
+export function validateUserToolDraft(draft: UserToolDraft, existing: UserToolSpec[] = [], reservedNames: string[] = []): string[] {
+  const problems: string[] = [];
+  if (!TOOL_NAME.test(draft.name)) {
+    problems.push('The name may only contain letters, digits and underscores, and must not start with a digit');
+  } else if (isReservedToolName(draft.name, reservedNames)) {
+    problems.push(`${draft.name} is taken by a built-in tool`);
+  } else if (existing.some(tool => tool.name === draft.name)) {
+    problems.push(`A tool named ${draft.name} already exists`);
+  }
+  if (!draft.description.trim()) problems.push('The description tells the model when to use the tool and is required');
+  if (!draft.code.trim()) problems.push('The handler needs a body, e.g. return args.a + args.b;');
+  return problems;
+}
+
+// MARK: - User tool store
+/**
+ * Tools created in the app, kept in localStorage so they survive restarts. Their handler
+ * bodies only ever run inside `runInSandbox`.
+ */
+export class UserToolStore {
+  list(): UserToolSpec[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? JSON.parse(stored) as UserToolSpec[] : [];
+    } catch (error) {
+      console.warn('Failed to read user tools:', error);
+      return [];
+    }
+  }
+
+  create(draft: UserToolDraft, reservedNames: string[] = []): UserToolSpec {
+    const tools = this.list();
+    const problems = validateUserToolDraft(draft, tools, reservedNames);
+    if (problems.length > 0) throw new Error(problems.join('. '));
+
+    const spec: UserToolSpec = {
+      ...draft,
+      id: `user_tool_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      createdAt: Date.now()
+    };
+    this.write([...tools, spec]);
+    return spec;
+  }
+
+  delete(id: string): void {
+    this.write(this.list().filter(tool => tool.id !== id));
+  }
+
+  private write(tools: UserToolSpec[]): void {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tools));
+  }
+}
+
+export const userToolStore = new UserToolStore();
+
+// MARK: - Registration
+// Arguments are validated against the spec's schema before the sandbox starts
+export function userToolDefinition(spec: UserToolSpec): ToolDefinition<unknown> {
+  return {
+    name: spec.name,
+    description: spec.description,
+    parameters: spec.parameters,
+    handler: (args, { signal }) => {
+      const options: SandboxOptions = { timeLimitMs: spec.timeLimitMs, signal };
+      return runInSandbox(spec.code, args, options);
+    }
+  };
+}
+
+export const registerUserTool = (spec: UserToolSpec) => registerCustomTool(
+  spec.id,
+  spec.name,
+  spec.description,
+  createToolHandler(userToolDefinition(spec)),
+  { parameters: spec.parameters }
+);
@@ -1 +1,7 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FALLBACK_MODEL_URL?: string
+  readonly VITE_FALLBACK_MODEL?: string
+  readonly VITE_HTTP_FETCH_ALLOW?: string
+}